@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import { ReferenceTrackMode } from '../config/config';
+import { Track, TrackMetadata, TrackStatus } from '../models/track.model';
+import { ArtworkService } from '../services/artwork.service';
+import { FileService } from '../services/file.service';
+import { Logger } from '../services/logger.service';
+import { MetadataOverrides } from '../services/metadata-override.service';
+import { StateManager } from '../services/state.service';
+import { isReferenceTrack } from '../utils/track-reference';
+
+export interface RetagOptions {
+  playlists?: string[];                   // Playlists to retag (default: all in state)
+  dryRun: boolean;                        // Only report what would change
+  referenceTrackMode: ReferenceTrackMode; // Linked reference tracks share the VIP file and are left alone
+}
+
+export interface RetagResult {
+  checked: number;
+  changed: number;    // Files retagged (or that would be in dry-run mode)
+  unchanged: number;
+  missing: number;    // Completed tracks without a file
+  failed: number;
+}
+
+// Tag fields compared and written, in report order
+const METADATA_FIELDS: Array<keyof TrackMetadata> = [
+  'title', 'artist', 'album', 'year', 'composer', 'arranger',
+  'albumArtist', 'trackNumber', 'genre', 'comment', 'grouping', 'compilation'
+];
+
+/**
+ * Re-apply metadata to downloaded files from the state file, with the
+ * current metadata overrides, and record tagging failures per track
+ */
+export async function retagLibrary(
+  stateManager: StateManager,
+  fileService: FileService,
+  overrides: MetadataOverrides,
+  logger: Logger,
+  options: RetagOptions,
+  artworkService?: ArtworkService
+): Promise<RetagResult> {
+  const result: RetagResult = { checked: 0, changed: 0, unchanged: 0, missing: 0, failed: 0 };
+  const playlistNames = options.playlists && options.playlists.length > 0
+    ? options.playlists
+    : stateManager.getAllPlaylists().map(playlist => playlist.name);
+  
+  // Linked reference tracks of every playlist, found by the file they share
+  const tracksByFile = options.dryRun ? new Map<string, Track[]>() : indexTracksByFile(stateManager);
+  
+  for (const playlistName of playlistNames) {
+    const playlist = stateManager.getPlaylistState(playlistName);
+    if (!playlist) {
+      logger.warn(`Playlist ${playlistName} not found in state, skipping`);
+      continue;
+    }
+    
+    const tracks: Track[] = playlist.tracks.filter((track: Track) =>
+      track.status === TrackStatus.COMPLETED &&
+      (!isReferenceTrack(track) || options.referenceTrackMode === 'copy')
+    );
+    
+    // Work on copies so overrides only reach the state once the file is retagged
+    const desiredTracks = overrides.apply(tracks.map(track => ({ ...track, metadata: { ...track.metadata } })));
+    
+    logger.info(`${options.dryRun ? 'Checking' : 'Retagging'} ${tracks.length} files in ${playlistName}...`);
+    
+    for (let i = 0; i < tracks.length; i++) {
+      const track = tracks[i];
+      const desired = desiredTracks[i].metadata;
+      result.checked++;
+      
+      if (!fs.existsSync(track.filePath)) {
+        result.missing++;
+        logger.warn(`File missing: ${track.filePath}`);
+        continue;
+      }
+      
+      const current = await fileService.readMetadata(track.filePath);
+      const differences = current ? diffMetadata(current, desired) : ['(tags could not be read)'];
+      if (artworkService && !(await artworkService.hasCurrentArtwork(desiredTracks[i]))) {
+        differences.push('cover');
+      }
+      
+      if (differences.length === 0 && !track.tagError) {
+        result.unchanged++;
+        continue;
+      }
+      
+      result.changed++;
+      if (options.dryRun) {
+        logger.info(`${track.fileName}:`);
+        differences.forEach(difference => logger.info(`  ${difference}`));
+        continue;
+      }
+      
+      const tagError = await fileService.setMetadata(track.filePath, desired) ||
+        (artworkService ? await artworkService.applyArtwork(desiredTracks[i]) : null);
+      stateManager.setTagError(playlistName, track.id, tagError);
+      
+      // Tags are part of the file, so its checksum changes with them,
+      // also for the tracks linked to it
+      const checksum = await fileService.calculateChecksum(track.filePath);
+      stateManager.setChecksum(playlistName, track.id, checksum);
+      
+      const identity = getFileIdentity(track.filePath);
+      const linkedTracks = ((identity && tracksByFile.get(identity)) || []).filter(other => other !== track);
+      for (const linked of linkedTracks) {
+        stateManager.setChecksum(linked.playlistName, linked.id, checksum);
+      }
+      if (tagError) {
+        result.failed++;
+      } else {
+        track.metadata = desired;
+        logger.debug(`Retagged ${track.fileName}: ${differences.join(', ')}`);
+      }
+    }
+  }
+
+  if (!options.dryRun) {
+    stateManager.saveState();
+  }
+
+  logger.info(
+    `${result.checked} files checked: ${result.changed} ${options.dryRun ? 'would be retagged' : 'retagged'}, ` +
+    `${result.unchanged} up to date, ${result.missing} missing, ${result.failed} failed`
+  );
+  
+  return result;
+}
+
+/**
+ * Describe the tag values that differ from the desired metadata.
+ * Empty desired values are not written and therefore not compared.
+ */
+function diffMetadata(current: TrackMetadata, desired: TrackMetadata): string[] {
+  return METADATA_FIELDS
+    .filter(field => desired[field] !== undefined && desired[field] !== '')
+    .filter(field => String(current[field] ?? '') !== String(desired[field]))
+    .map(field => `${field}: "${current[field] ?? ''}" -> "${desired[field]}"`);
+}
+
+/**
+ * Index the completed tracks of all playlists by the file behind their path
+ */
+function indexTracksByFile(stateManager: StateManager): Map<string, Track[]> {
+  const index = new Map<string, Track[]>();
+  
+  for (const { name } of stateManager.getAllPlaylists()) {
+    for (const track of stateManager.getPlaylistState(name).tracks as Track[]) {
+      if (track.status !== TrackStatus.COMPLETED) continue;
+      
+      const identity = getFileIdentity(track.filePath);
+      if (identity) {
+        index.set(identity, [...(index.get(identity) || []), track]);
+      }
+    }
+  }
+  
+  return index;
+}
+
+/**
+ * Device and inode of the file behind a path, the same for its hardlinks and symlinks
+ */
+function getFileIdentity(filePath: string): string | null {
+  try {
+    const stats = fs.statSync(filePath);
+    return `${stats.dev}:${stats.ino}`;
+  } catch (error) {
+    return null;
+  }
+}
\ No newline at end of file
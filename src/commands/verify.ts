@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import { Track, TrackStatus } from '../models/track.model';
+import { FileService } from '../services/file.service';
+import { Logger } from '../services/logger.service';
+import { StateManager } from '../services/state.service';
+import { writeChecksumManifest } from '../utils/checksum-manifest';
+
+export interface VerifyOptions {
+  playlists?: string[];   // Playlists to verify (default: all in state)
+  concurrency: number;    // Files hashed in parallel
+  requeue: boolean;       // Download damaged and missing files again
+  outputDir: string;      // Where the checksum manifests are written
+}
+
+export interface VerifyResult {
+  checked: number;
+  ok: number;
+  hashed: number;         // Files without a recorded checksum, hashed now
+  corrupted: number;      // Content changed while size and modification time did not (bit-rot)
+  truncated: number;      // Smaller than when hashed
+  modified: number;       // Changed outside the tool
+  missing: number;
+  unreadable: number;     // Could not be read, left alone by --requeue
+  requeued: number;
+}
+
+type Problem = 'corrupted' | 'truncated' | 'modified' | 'missing' | 'unreadable';
+
+/**
+ * Re-hash downloaded files and compare them with the checksums in the state
+ * file, then rewrite the checksum manifests
+ */
+export async function verifyLibrary(
+  stateManager: StateManager,
+  fileService: FileService,
+  logger: Logger,
+  options: VerifyOptions
+): Promise<VerifyResult> {
+  const result: VerifyResult = {
+    checked: 0, ok: 0, hashed: 0, corrupted: 0, truncated: 0, modified: 0, missing: 0, unreadable: 0, requeued: 0
+  };
+  const playlistNames = options.playlists && options.playlists.length > 0
+    ? options.playlists
+    : stateManager.getAllPlaylists().map(playlist => playlist.name);
+  
+  for (const playlistName of playlistNames) {
+    const playlist = stateManager.getPlaylistState(playlistName);
+    if (!playlist) {
+      logger.warn(`Playlist ${playlistName} not found in state, skipping`);
+      continue;
+    }
+    
+    const tracks: Track[] = playlist.tracks.filter((track: Track) => track.status === TrackStatus.COMPLETED);
+    logger.info(`Verifying ${tracks.length} files in ${playlistName}...`);
+    
+    const problems: Array<{ track: Track, problem: Problem }> = [];
+    await runInParallel(tracks, Math.max(1, options.concurrency), async track => {
+      result.checked++;
+      const problem = await verifyTrack(track, stateManager, fileService, result);
+      if (problem) {
+        result[problem]++;
+        problems.push({ track, problem });
+        logger.warn(`${describeProblem(problem)}: ${track.filePath}`);
+      }
+    });
+    
+    if (options.requeue) {
+      // A read error says nothing about the file's content, downloading it again would not help
+      for (const { track } of problems.filter(({ problem }) => problem !== 'unreadable')) {
+        if (await requeueTrack(track, stateManager, logger)) {
+          result.requeued++;
+        }
+      }
+    }
+    
+    await writeChecksumManifest(options.outputDir, playlistName, playlist.tracks);
+  }
+
+  stateManager.saveState();
+  
+  const damaged = result.corrupted + result.truncated + result.modified + result.missing;
+  logger.info(
+    `${result.checked} files verified: ${result.ok} ok, ${result.hashed} hashed for the first time, ` +
+    `${result.corrupted} corrupted, ${result.truncated} truncated, ${result.modified} modified, ${result.missing} missing, ` +
+    `${result.unreadable} unreadable`
+  );
+  if (options.requeue) {
+    logger.info(`${result.requeued} files will be downloaded again on the next run`);
+  } else if (damaged > 0) {
+    logger.info('Run verify --requeue to download them again');
+  }
+  if (result.unreadable > 0) {
+    logger.info('Files that could not be read were left alone, check their permissions and the disk');
+  }
+
+  return result;
+}
+
+/**
+ * Compare a file with its recorded checksum, recording a checksum for files that have none
+ */
+async function verifyTrack(
+  track: Track,
+  stateManager: StateManager,
+  fileService: FileService,
+  result: VerifyResult
+): Promise<Problem | null> {
+  if (!fs.existsSync(track.filePath)) return 'missing';
+  
+  const current = await fileService.calculateChecksum(track.filePath);
+  if (!current) return 'unreadable';
+  
+  const recorded = track.checksum;
+  if (!recorded) {
+    stateManager.setChecksum(track.playlistName, track.id, current);
+    result.hashed++;
+    return null;
+  }
+
+  if (current.sha256 === recorded.sha256) {
+    result.ok++;
+    return null;
+  }
+  if (current.size < recorded.size) return 'truncated';
+  if (current.size === recorded.size && current.modifiedAt === recorded.modifiedAt) return 'corrupted';
+  return 'modified';
+}
+
+/**
+ * Move a damaged file aside and queue its track for download. Like an
+ * upstream update, the old file is deleted once the new one is complete.
+ */
+async function requeueTrack(track: Track, stateManager: StateManager, logger: Logger): Promise<boolean> {
+  try {
+    let backupPath: string | undefined;
+    if (fs.existsSync(track.filePath)) {
+      backupPath = `${track.filePath}.bak`;
+      await fs.promises.rename(track.filePath, backupPath);
+    }
+    
+    stateManager.queueUpdate(track.playlistName, track.id, backupPath);
+    stateManager.setChecksum(track.playlistName, track.id, null);
+    return true;
+  } catch (error: any) {
+    logger.error(`Error queueing ${track.fileName} for download: ${error.message}`);
+    return false;
+  }
+}
+
+function describeProblem(problem: Problem): string {
+  switch (problem) {
+    case 'corrupted': return 'Checksum mismatch (possible bit-rot)';
+    case 'truncated': return 'File truncated';
+    case 'modified': return 'File modified outside aersia-hoshii';
+    case 'missing': return 'File missing';
+    case 'unreadable': return 'File could not be read';
+  }
+}
+
+/**
+ * Run a task for each item with at most `concurrency` tasks at a time
+ */
+async function runInParallel<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
\ No newline at end of file
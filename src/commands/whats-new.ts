@@ -0,0 +1,66 @@
+import { RosterEntry, RosterHistoryEntry, RosterHistoryService } from '../services/history.service';
+import { Logger } from '../services/logger.service';
+
+export interface WhatsNewOptions {
+  playlists?: string[];   // Playlists to report on (default: all with history)
+  entries: number;        // Number of recorded syncs to show per playlist
+}
+
+/**
+ * Print recorded roster changes and the upstream changelog for each playlist
+ */
+export function printWhatsNew(history: RosterHistoryService, logger: Logger, options: WhatsNewOptions): void {
+  const playlistNames = options.playlists && options.playlists.length > 0
+    ? options.playlists
+    : history.getPlaylistNames();
+  
+  if (playlistNames.length === 0) {
+    logger.info('No roster history recorded yet. Run a sync first.');
+    return;
+  }
+
+  for (const playlistName of playlistNames) {
+    logger.info(`\n===== ${playlistName} =====\n`);
+    
+    const entries = history.getEntries(playlistName);
+    if (entries.length === 0) {
+      logger.info(`No roster history recorded for ${playlistName}`);
+      continue;
+    }
+    
+    const lastSync = history.getLastSync(playlistName);
+    if (lastSync) {
+      logger.info(`Last sync: ${lastSync.toLocaleString()}`);
+    }
+    
+    entries.slice(-options.entries).reverse().forEach(entry => logHistoryEntry(entry, logger));
+    
+    // Show the most recent upstream changelog
+    const withChangelog = entries.filter(entry => entry.changelog);
+    const changelog = withChangelog.length > 0 ? withChangelog[withChangelog.length - 1].changelog : undefined;
+    if (changelog) {
+      logger.info('Upstream changelog:');
+      changelog.split(/\r?\n/).forEach(line => logger.info(`  ${line}`));
+    }
+  }
+}
+
+function logHistoryEntry(entry: RosterHistoryEntry, logger: Logger): void {
+  if (entry.initial) {
+    logger.info(`${entry.timestamp.toLocaleString()}: first sync (${entry.trackCount} tracks)`);
+    return;
+  }
+
+  logger.info(
+    `${entry.timestamp.toLocaleString()}: ${entry.added.length} added, ${entry.removed.length} removed, ` +
+    `${entry.retitled.length} retitled (${entry.trackCount} tracks)`
+  );
+  
+  entry.added.forEach(track => logger.info(`  + ${describe(track)}`));
+  entry.removed.forEach(track => logger.info(`  - ${describe(track)}`));
+  entry.retitled.forEach(({ before, after }) => logger.info(`  ~ ${describe(before)} -> ${describe(after)}`));
+}
+
+function describe(track: RosterEntry): string {
+  return track.game ? `${track.game} - ${track.title}` : track.title;
+}
\ No newline at end of file
@@ -1,6 +1,60 @@
 import * as path from 'path';
 import * as fs from 'fs';
 
+/**
+ * Roster formats understood by the playlist provider registry:
+ * - json:     new JSON roster (VIP style)
+ * - json-ref: new JSON roster whose tracks may reference files of another roster (Mellow, Exiled)
+ * - source:   derived view listing the "Source" versions of another JSON roster
+ * - xml:      legacy XSPF-style XML roster (WAP, CPP)
+ */
+export type PlaylistFormat = 'json' | 'json-ref' | 'source' | 'xml';
+
+export interface PlaylistConfig {
+  url: string;
+  format: PlaylistFormat;
+  source?: string;  // Playlist a derived view is built from (format "source")
+  weight?: number;  // Share of download slots relative to the other playlists (default 1)
+}
+
+export interface PlaylistEntry extends PlaylistConfig {
+  name: string;
+}
+
+/**
+ * What to do with files of tracks that were dropped from the upstream roster
+ */
+export type RemovedTrackPolicy = 'keep' | 'archive' | 'delete';
+
+/**
+ * How Mellow/Exiled tracks that reference VIP files are materialized
+ */
+export type ReferenceTrackMode = 'skip' | 'hardlink' | 'symlink' | 'copy';
+
+/**
+ * Correction of roster data for matching tracks. Tracks are matched by ID,
+ * download URL or a regular expression on the roster label ("Game - Title",
+ * or "Creator - Title" for XML rosters); values may use the pattern's $1..$9.
+ */
+export interface MetadataOverride {
+  id?: string;
+  url?: string;
+  pattern?: string;
+  
+  game?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  fileName?: string;   // File name without extension, available to templates as {name}
+}
+
+export interface BandwidthScheduleEntry {
+  from: string;           // Local time "HH:MM"
+  to: string;             // Local time "HH:MM", may be past midnight
+  maxBandwidth: string;   // e.g. "500KB/s" or "unlimited"
+}
+
 export interface AppConfig {
   // Base directories
   baseDir: string;
@@ -12,12 +66,59 @@ export interface AppConfig {
   maxRetries: number;
   retryDelayMs: number;
   
+  // Download requests are aborted and retried after this long without a connection,
+  // without a first byte after connecting, or without data in a running download (0 disables)
+  connectTimeoutMs: number;
+  firstByteTimeoutMs: number;
+  idleTimeoutMs: number;
+  
+  // Bounds for tuning the number of concurrent downloads to the observed throughput,
+  // starting at maxConcurrentDownloads (fixed when unset)
+  adaptiveConcurrency?: { min: number, max: number };
+  
+  // Byte rate shared by all downloads (e.g. "2MB/s"), unlimited when unset
+  maxBandwidth?: string;
+  
+  // Time-of-day limits overriding maxBandwidth, first matching entry wins
+  bandwidthSchedule: BandwidthScheduleEntry[];
+  
+  // Requests per minute of specific hosts (or domains), others use requestsPerMinute
+  hostRateLimits: { [host: string]: number };
+  
   // Progress display settings
   progressUpdateIntervalMs: number;
   
-  // Playlist URLs
+  // Warn when a playlist makes no download progress for this long (0 disables the warning)
+  stallWarningMs: number;
+  
+  // File path template relative to outputDir, without extension (e.g. "{playlist}/{game}/{title}")
+  fileNameTemplate: string;
+  
+  // Corrections of roster data, applied after the built-in corrections
+  // (metadata-overrides.json) and before the entries of the overrides file
+  metadataOverrides: MetadataOverride[];
+  
+  // Local overrides file, relative to baseDir
+  overridesFile: string;
+  
+  // Folder of game cover images, relative to baseDir (cover art is disabled when unset)
+  artworkDir?: string;
+  
+  // JSON file mapping game names to image files, relative to artworkDir
+  artworkMappingFile: string;
+  
+  // Roster snapshot id or roster file to build tracks from instead of the network
+  rosterFrom?: string;
+  
+  // Handling of tracks removed from the upstream roster
+  removedTrackPolicy: RemovedTrackPolicy;
+  
+  // Handling of tracks that reference files of another roster
+  referenceTrackMode: ReferenceTrackMode;
+  
+  // Playlist rosters, either a URL (format inferred) or a full provider entry
   playlists: {
-    [name: string]: string;
+    [name: string]: string | PlaylistConfig;
   };
 }
 
@@ -30,19 +131,53 @@ const defaultConfig: AppConfig = {
   requestsPerMinute: 30,
   maxRetries: 5,
   retryDelayMs: 1000,
+  connectTimeoutMs: 15 * 1000,
+  firstByteTimeoutMs: 30 * 1000,
+  idleTimeoutMs: 60 * 1000,
+  
+  bandwidthSchedule: [],
+  hostRateLimits: {},
   
   progressUpdateIntervalMs: 200,
+  stallWarningMs: 2 * 60 * 1000,
+  
+  // {name} is the classic "Game - Title" file name
+  fileNameTemplate: '{playlist}/{name}',
+  
+  metadataOverrides: [],
+  overridesFile: 'aersia-overrides.json',
+  artworkMappingFile: 'artwork.json',
+  
+  removedTrackPolicy: 'keep',
+  referenceTrackMode: 'skip',
   
   playlists: {
-    VIP: "https://www.vipvgm.net/roster.min.json",
-    Source: "",
-    Mellow: "https://www.vipvgm.net/roster-mellow.min.json",
-    Exiled: "https://www.vipvgm.net/roster-exiled.min.json",
-    WAP: "https://wap.aersia.net/roster.xml",
-    CPP: "https://cpp.aersia.net/roster.xml",
+    VIP: { url: "https://www.vipvgm.net/roster.min.json", format: 'json' },
+    Source: { url: "", format: 'source', source: 'VIP' },
+    Mellow: { url: "https://www.vipvgm.net/roster-mellow.min.json", format: 'json-ref' },
+    Exiled: { url: "https://www.vipvgm.net/roster-exiled.min.json", format: 'json-ref' },
+    WAP: { url: "https://wap.aersia.net/roster.xml", format: 'xml' },
+    CPP: { url: "https://cpp.aersia.net/roster.xml", format: 'xml' },
   }
 };
 
+// Formats of the built-in rosters, used when a config file only gives a URL
+const knownPlaylistFormats: { [name: string]: PlaylistFormat } = {
+  VIP: 'json',
+  Source: 'source',
+  Mellow: 'json-ref',
+  Exiled: 'json-ref',
+  WAP: 'xml',
+  CPP: 'xml'
+};
+
+/**
+ * Directory where fetched roster snapshots are archived, next to the library
+ */
+export function getRosterArchiveDir(config: AppConfig): string {
+  return path.join(config.outputDir, '.rosters');
+}
+
 /**
  * Load config from file if exists, otherwise use defaults
  */
@@ -74,17 +209,54 @@ export function saveConfig(config: AppConfig, configPath?: string): void {
   }
 }
 
+/**
+ * Normalize a playlist config entry, inferring the format of plain URL entries
+ */
+export function normalizePlaylistConfig(name: string, entry: string | PlaylistConfig): PlaylistConfig {
+  if (typeof entry !== 'string') {
+    return { ...entry, url: entry.url || '' };
+  }
+  
+  const format = knownPlaylistFormats[name] || (/\.xml(\?|$)/i.test(entry) ? 'xml' : 'json');
+  return {
+    url: entry,
+    format,
+    source: format === 'source' ? 'VIP' : undefined
+  };
+}
+
+/**
+ * Resolve all enabled playlists from config, in config order.
+ * Derived views inherit the URL of the playlist they are built from.
+ */
+export function resolvePlaylistEntries(config: AppConfig): PlaylistEntry[] {
+  const entries = Object.entries(config.playlists)
+    .map(([name, entry]) => ({ name, ...normalizePlaylistConfig(name, entry) }));
+  
+  return entries
+    .map(entry => {
+      if (entry.format === 'source' && !entry.url && entry.source) {
+        const source = entries.find(e => e.name === entry.source);
+        return { ...entry, url: source ? source.url : '' };
+      }
+      return entry;
+    })
+    .filter(entry => entry.url !== '');
+}
+
 /**
  * Get playlist information
  */
 export function getPlaylistInfo(config: AppConfig) {
-  const newPlaylists = Object.entries(config.playlists)
-    .filter(([name]) => ['VIP', 'Source', 'Mellow', 'Exiled'].includes(name))
-    .filter(([_, url]) => url !== '');
+  const entries = resolvePlaylistEntries(config);
+  
+  const newPlaylists = entries
+    .filter(entry => entry.format !== 'xml')
+    .map(entry => [entry.name, entry.url] as [string, string]);
   
-  const oldPlaylists = Object.entries(config.playlists)
-    .filter(([name]) => ['WAP', 'CPP'].includes(name))
-    .filter(([_, url]) => url !== '');
+  const oldPlaylists = entries
+    .filter(entry => entry.format === 'xml')
+    .map(entry => [entry.name, entry.url] as [string, string]);
   
   return { newPlaylists, oldPlaylists };
 }
\ No newline at end of file
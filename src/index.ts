@@ -2,14 +2,29 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { loadConfig } from './config/config';
+import { retagLibrary } from './commands/retag';
+import { verifyLibrary } from './commands/verify';
+import { printWhatsNew } from './commands/whats-new';
+import { AppConfig, getRosterArchiveDir, loadConfig } from './config/config';
 import { Track } from './models/track.model';
-import { DownloadManager } from './services/download.service';
+import { ArtworkService } from './services/artwork.service';
+import { DownloadManager, DownloadProgress } from './services/download.service';
+import { FileReconciler } from './services/file-reconciler.service';
 import { FileService } from './services/file.service';
+import { RosterHistoryService } from './services/history.service';
 import { Logger, LogLevel } from './services/logger.service';
+import { MetadataOverrides } from './services/metadata-override.service';
+import { PlaylistExporter } from './services/playlist-export.service';
 import { PlaylistService } from './services/playlist.service';
 import { ProgressTracker } from './services/progress.service';
+import { ReferenceLinker } from './services/reference-linker.service';
+import { RosterArchive } from './services/roster-archive.service';
 import { StateManager } from './services/state.service';
+import { UpdateChecker } from './services/update-checker.service';
+import { resolveBandwidthLimit } from './utils/bandwidth-schedule';
+import { writeChecksumManifest } from './utils/checksum-manifest';
+import { findUnknownTemplateTokens } from './utils/path-template';
+import { createTrackFilter } from './utils/track-filter';
 
 // Setup command line interface
 const program = new Command();
@@ -19,19 +34,179 @@ program
   .version('2.0.0')
   .option('-p, --playlists <playlists>', 'Comma-separated list of playlists to download (default: all)')
   .option('-c, --concurrent <number>', 'Maximum concurrent downloads', '3')
+  .option('--adaptive <min-max>', 'Adjust concurrent downloads to the throughput within these bounds (e.g. 1-8)')
   .option('-r, --rate <number>', 'Requests per minute', '30')
+  .option('--max-bandwidth <rate>', 'Limit the total download speed (e.g. 2MB/s, 500KB/s)')
   .option('-o, --output <path>', 'Output directory')
   .option('-l, --log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .option('--no-resume', 'Disable auto-resume (not recommended)')
   .option('--log-file <path>', 'Log to file')
   .option('--no-progress', 'Disable progress bar')
-  .option('--config <path>', 'Path to config file');
+  .option('--config <path>', 'Path to config file')
+  .option('--game <names>', 'Only tracks whose game contains one of these comma-separated names')
+  .option('--composer <names>', 'Only tracks whose composer contains one of these comma-separated names')
+  .option('--arranger <names>', 'Only tracks whose arranger contains one of these comma-separated names')
+  .option('--title <regex>', 'Only tracks whose title matches this regular expression')
+  .option('--track-id <ids>', 'Only tracks with these comma-separated IDs')
+  .option('--exclude-game <names>', 'Skip tracks whose game contains one of these names')
+  .option('--exclude-composer <names>', 'Skip tracks whose composer contains one of these names')
+  .option('--exclude-arranger <names>', 'Skip tracks whose arranger contains one of these names')
+  .option('--exclude-title <regex>', 'Skip tracks whose title matches this regular expression')
+  .option('--exclude-track-id <ids>', 'Skip tracks with these IDs')
+  .option('--match <mode>', 'Combine track filters with all (AND) or any (OR)', 'all')
+  .option('--link-references <mode>', 'Materialize Mellow/Exiled tracks that reuse VIP files (skip, hardlink, symlink, copy)')
+  .option('--check-updates', 'Download completed tracks again when their upstream file changed')
+  .option('--roster-from <snapshot|path>', 'Build tracks from a saved roster snapshot ("latest", id or id prefix) or a local roster file')
+  .action(() => main());
 
-program.parse(process.argv);
-const options = program.opts();
+program
+  .command('whats-new')
+  .description('Show roster changes between syncs and the upstream changelog (use --playlists to select)')
+  .option('-n, --entries <number>', 'Number of recorded syncs to show per playlist', '1')
+  .action((commandOptions) => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    const logger = createCommandLogger(options);
+    
+    printWhatsNew(new RosterHistoryService(config.baseDir, logger), logger, {
+      playlists: parseList(options.playlists),
+      entries: parseInt(commandOptions.entries, 10)
+    });
+    
+    logger.close();
+  });
+
+program
+  .command('rosters')
+  .description('List archived roster snapshots (use --playlists to select)')
+  .action(() => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    if (options.output) {
+      config.outputDir = path.resolve(options.output);
+    }
+    const logger = createCommandLogger(options);
+    const archive = new RosterArchive(getRosterArchiveDir(config), logger);
+    
+    const playlistNames = parseList(options.playlists) || archive.getPlaylistNames();
+    if (playlistNames.length === 0) {
+      logger.info('No roster snapshots archived yet');
+    }
+    
+    for (const playlistName of playlistNames) {
+      const snapshots = archive.list(playlistName);
+      logger.info(`${playlistName}: ${snapshots.length} snapshots`);
+      snapshots.forEach(snapshot => logger.info(`  ${snapshot.id}  ${snapshot.filePath}`));
+    }
+    
+    logger.close();
+  });
+
+program
+  .command('export-playlists')
+  .description('Write .m3u8 and .xspf playlist files in roster order (use --playlists to select)')
+  .action(async () => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    if (options.output) {
+      config.outputDir = path.resolve(options.output);
+    }
+    const logger = createCommandLogger(options);
+    const stateManager = new StateManager(config.baseDir, logger);
+    
+    try {
+      const exporter = new PlaylistExporter(logger, stateManager, config.outputDir);
+      await exporter.exportPlaylists(parseList(options.playlists));
+    } finally {
+      stateManager.cleanup();
+      logger.close();
+    }
+  });
+
+program
+  .command('retag')
+  .description('Re-apply metadata to downloaded files (use --playlists to select)')
+  .option('--dry-run', 'Only report which tags would change')
+  .action(async (commandOptions) => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    const logger = createCommandLogger(options);
+    const stateManager = new StateManager(config.baseDir, logger);
+    
+    try {
+      await retagLibrary(stateManager, new FileService(logger), new MetadataOverrides(logger, config), logger, {
+        playlists: parseList(options.playlists),
+        dryRun: !!commandOptions.dryRun,
+        referenceTrackMode: options.linkReferences || config.referenceTrackMode
+      }, new ArtworkService(logger, config));
+    } finally {
+      stateManager.cleanup();
+      logger.close();
+    }
+  });
+
+program
+  .command('verify')
+  .description('Re-hash downloaded files and report damaged ones (use --playlists to select)')
+  .option('-j, --jobs <number>', 'Files hashed in parallel', '4')
+  .option('--requeue', 'Download damaged and missing files again on the next run')
+  .action(async (commandOptions) => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    if (options.output) {
+      config.outputDir = path.resolve(options.output);
+    }
+    const logger = createCommandLogger(options);
+    const stateManager = new StateManager(config.baseDir, logger);
+    
+    try {
+      const result = await verifyLibrary(stateManager, new FileService(logger), logger, {
+        playlists: parseList(options.playlists),
+        concurrency: parseInt(commandOptions.jobs, 10) || 1,
+        requeue: !!commandOptions.requeue,
+        outputDir: config.outputDir
+      });
+      
+      if (result.corrupted + result.truncated + result.modified + result.missing + result.unreadable > 0) {
+        process.exitCode = 1;
+      }
+    } finally {
+      stateManager.cleanup();
+      logger.close();
+    }
+  });
+
+program
+  .command('missing-artwork')
+  .description('List games of downloaded playlists without cover art in the artwork folder')
+  .action(() => {
+    const options = program.opts();
+    const config = loadConfig(options.config);
+    const logger = createCommandLogger(options);
+    const stateManager = new StateManager(config.baseDir, logger);
+    
+    try {
+      const artworkService = new ArtworkService(logger, config);
+      if (!artworkService.isEnabled()) {
+        logger.warn('No artworkDir configured');
+        return;
+      }
+      
+      const tracks = stateManager.getAllPlaylists()
+        .flatMap(playlist => stateManager.getPlaylistState(playlist.name).tracks);
+      const games = artworkService.findGamesWithoutArtwork(tracks);
+      games.forEach(game => logger.info(game));
+      logger.info(`${games.length} games without artwork`);
+    } finally {
+      stateManager.cleanup();
+      logger.close();
+    }
+  });
 
 // Main application function
 async function main() {
+  const options = program.opts();
+  
   // Load config
   const config = loadConfig(options.config);
   
@@ -42,9 +217,21 @@ async function main() {
   if (options.concurrent) {
     config.maxConcurrentDownloads = parseInt(options.concurrent, 10);
   }
+  if (options.adaptive) {
+    config.adaptiveConcurrency = parseConcurrencyRange(options.adaptive);
+  }
   if (options.rate) {
     config.requestsPerMinute = parseInt(options.rate, 10);
   }
+  if (options.maxBandwidth) {
+    config.maxBandwidth = options.maxBandwidth;
+  }
+  if (options.rosterFrom) {
+    config.rosterFrom = options.rosterFrom;
+  }
+  if (options.linkReferences) {
+    config.referenceTrackMode = options.linkReferences;
+  }
   
   // Check if state file exists to determine if we're resuming
   const stateFilePath = path.join(config.baseDir || './', '.aersia-state.json');
@@ -62,8 +249,81 @@ async function main() {
   logger.info(`Aersia Downloader v2.0.0 starting`);
   logger.info(`Output directory: ${config.outputDir}`);
   logger.info(`Max concurrent downloads: ${config.maxConcurrentDownloads}`);
+  
+  const adaptive = config.adaptiveConcurrency;
+  if (adaptive) {
+    if (!(adaptive.min >= 1 && adaptive.max >= adaptive.min)) {
+      logger.error('Invalid adaptive concurrency bounds (expected 1 <= min <= max, e.g. --adaptive 1-8)');
+      process.exit(1);
+    }
+    logger.info(`Adaptive concurrency: ${adaptive.min}-${adaptive.max}`);
+  }
   logger.info(`Rate limit: ${config.requestsPerMinute} requests/minute`);
   
+  // Validate settings before anything is started, so an invalid one exits cleanly
+  const unknownTokens = findUnknownTemplateTokens(config.fileNameTemplate);
+  if (unknownTokens.length > 0) {
+    logger.error(`Unknown tokens in fileNameTemplate: ${unknownTokens.map(token => `{${token}}`).join(', ')}`);
+    process.exit(1);
+  }
+  
+  if (!['skip', 'hardlink', 'symlink', 'copy'].includes(config.referenceTrackMode)) {
+    logger.error(`Unknown reference track mode: ${config.referenceTrackMode}`);
+    process.exit(1);
+  }
+  
+  let maxBandwidth: number | null;
+  try {
+    maxBandwidth = resolveBandwidthLimit(config.maxBandwidth, config.bandwidthSchedule);
+  } catch (error: any) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+  
+  // Select tracks with the track filter options
+  if (options.match !== 'all' && options.match !== 'any') {
+    logger.error(`Unknown filter match mode: ${options.match} (expected all or any)`);
+    process.exit(1);
+  }
+  let trackFilter: ReturnType<typeof createTrackFilter>;
+  try {
+    trackFilter = createTrackFilter({
+      games: parseList(options.game),
+      composers: parseList(options.composer),
+      arrangers: parseList(options.arranger),
+      title: options.title,
+      trackIds: parseList(options.trackId),
+      excludeGames: parseList(options.excludeGame),
+      excludeComposers: parseList(options.excludeComposer),
+      excludeArrangers: parseList(options.excludeArranger),
+      excludeTitle: options.excludeTitle,
+      excludeTrackIds: parseList(options.excludeTrackId),
+      match: options.match
+    });
+  } catch (error: any) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+  
+  // Initialize playlist service
+  const fileService = new FileService(logger);
+  const rosterArchive = new RosterArchive(getRosterArchiveDir(config), logger);
+  const metadataOverrides = new MetadataOverrides(logger, config);
+  const playlistService = new PlaylistService(logger, config, fileService, rosterArchive, metadataOverrides);
+  
+  // Determine which playlists to download
+  const playlistsToDownload = playlistService.getPlaylistsToDownload(parseList(options.playlists));
+  if (playlistsToDownload.length === 0) {
+    logger.error('No playlists selected for download');
+    process.exit(1);
+  }
+  
+  // A single roster file can only stand in for a single playlist
+  if (config.rosterFrom && RosterArchive.isRosterFile(config.rosterFrom) && playlistsToDownload.length > 1) {
+    logger.error('--roster-from with a roster file requires selecting exactly one playlist with --playlists');
+    process.exit(1);
+  }
+  
   // Ensure output directory exists
   if (!fs.existsSync(config.outputDir)) {
     fs.mkdirSync(config.outputDir, { recursive: true });
@@ -71,7 +331,9 @@ async function main() {
   
   // Initialize services
   const stateManager = new StateManager(config.baseDir, logger);
-  const fileService = new FileService(logger);
+  stateManager.setTrackFilter(trackFilter);
+  const historyService = new RosterHistoryService(config.baseDir, logger);
+  const artworkService = new ArtworkService(logger, config);
   
   const downloadManager = new DownloadManager(
     logger,
@@ -80,10 +342,30 @@ async function main() {
     {
       maxConcurrent: config.maxConcurrentDownloads,
       requestsPerMinute: config.requestsPerMinute,
+      hostRequestsPerMinute: config.hostRateLimits,
+      adaptiveConcurrency: config.adaptiveConcurrency,
+      timeouts: {
+        connectMs: config.connectTimeoutMs,
+        firstByteMs: config.firstByteTimeoutMs,
+        idleMs: config.idleTimeoutMs
+      },
       retryDelayMs: config.retryDelayMs,
       maxRetries: config.maxRetries
-    }
+    },
+    artworkService
   );
+  downloadManager.setMaxBandwidth(maxBandwidth);
+  setupBandwidthControl(logger, downloadManager, config, options.config);
+  
+  // Move files of renamed tracks instead of downloading them again
+  const fileReconciler = new FileReconciler(logger, stateManager, fileService, config.outputDir);
+  
+  // Link tracks that reuse files of another playlist, also when those files arrive later in the run
+  const referenceLinker = new ReferenceLinker(logger, stateManager, fileService, config.referenceTrackMode);
+  downloadManager.on('complete', (track) => referenceLinker.handleTrackComplete(track));
+  
+  // Update checks share the download rate limit
+  const updateChecker = new UpdateChecker(logger, stateManager, downloadManager.getRateLimiter());
   
   // Start periodic state logging
   stateManager.startPeriodicStateLogging(60000); // Log every minute
@@ -103,9 +385,6 @@ async function main() {
   // Handle termination signals
   setupSignalHandlers(logger, downloadManager, progressTracker, stateManager);
   
-  // Initialize playlist service
-  const playlistService = new PlaylistService(logger, config, fileService);
-  
   try {
     // Show resume information if resuming
     if (isResuming) {
@@ -115,23 +394,16 @@ async function main() {
       logger.info('Starting new download session');
     }
     
-    // Determine which playlists to download
-    let requestedPlaylists: string[] | undefined;
-    if (options.playlists) {
-      requestedPlaylists = options.playlists.split(',').map((p: string) => p.trim());
+    if (config.rosterFrom) {
+      logger.info(`Building playlists from roster snapshot: ${config.rosterFrom}`);
     }
     
-    const playlistsToDownload = playlistService.getPlaylistsToDownload(requestedPlaylists);
+    logger.info(`Starting download for playlists: ${playlistsToDownload.map(playlist => playlist.name).join(', ')}`);
     
-    if (playlistsToDownload.length === 0) {
-      logger.error('No playlists selected for download');
-      process.exit(1);
-    }
-    
-    logger.info(`Starting download for playlists: ${playlistsToDownload.map(([name]) => name).join(', ')}`);
-    
-    // Process each playlist one by one
-    for (const [name, url] of playlistsToDownload) {
+    // Fetch and queue every playlist up front; downloads of the first ones run while the rest are prepared
+    const queuedPlaylists: string[] = [];
+    for (const playlist of playlistsToDownload) {
+      const { name } = playlist;
       logger.info(`Processing playlist: ${name}`);
       stateManager.setCurrentPlaylist(name);
       
@@ -139,22 +411,45 @@ async function main() {
         // Create playlist directory
         await playlistService.createPlaylistDirectory(name);
         
-        // Clear previous queue - important when processing playlists one by one
-        downloadManager.clearQueue();
+        // Fetch and parse playlist with the provider registered for its format
+        const tracks = await playlistService.getPlaylistTracks(playlist, stateManager.getPlaylistState(name)?.tracks);
         
-        // Fetch and parse playlist
-        let tracks: Track[];
+        logger.info(`Found ${tracks.length} tracks in playlist ${name}`);
         
-        if (['WAP', 'CPP'].includes(name)) {
-          tracks = await playlistService.getOldPlaylistTracks(name, url);
-        } else {
-          tracks = await playlistService.getNewPlaylistTracks(name, url);
+        // Record what changed since the previous sync (replayed snapshots are not a new sync)
+        if (!config.rosterFrom) {
+          historyService.recordSync(name, tracks, playlistService.getChangelog(name));
         }
         
-        logger.info(`Found ${tracks.length} tracks in playlist ${name}`);
+        // A replayed snapshot lacks newer tracks: it must not take their files
+        // for its own tracks or mark them as removed
+        const replaying = !!config.rosterFrom;
+        
+        // Pick up files left under an old name before the state sees them as missing
+        if (!replaying) {
+          await fileReconciler.reconcile(name, tracks);
+        }
         
         // Update state with new tracks
-        stateManager.initPlaylist(name, tracks);
+        stateManager.initPlaylist(name, tracks, !replaying);
+        
+        const selectedCount = tracks.filter(track => stateManager.isTrackSelected(track)).length;
+        if (selectedCount < tracks.length) {
+          logger.info(`Track filters selected ${selectedCount} of ${tracks.length} tracks in playlist ${name}`);
+        }
+        
+        // Handle files of tracks dropped from the roster
+        if (!replaying) {
+          await playlistService.applyRemovedTrackPolicy(name, stateManager.getRemovedTracks(name));
+        }
+        
+        // Materialize tracks that reference files of another playlist
+        await referenceLinker.linkPlaylist(name);
+        
+        // Re-queue files that were replaced upstream
+        if (options.checkUpdates) {
+          await updateChecker.checkPlaylist(name);
+        }
         
         // Log detailed playlist state
         const initialState = stateManager.getPlaylistDetailedState(name);
@@ -168,13 +463,31 @@ async function main() {
           continue;
         }
         
+        if (playlist.weight !== undefined) {
+          if (!(playlist.weight > 0)) {
+            logger.warn(`Ignoring invalid weight ${playlist.weight} of playlist ${name}`);
+          } else {
+            downloadManager.setPlaylistWeight(name, playlist.weight);
+          }
+        }
+        
         logger.info(`Adding ${pendingTracks.length} tracks to download queue`);
         
-        // Add tracks to download queue
+        // Add tracks to the download queue shared by all playlists
         downloadManager.addToQueue(pendingTracks);
-        
-        // Wait for all downloads to complete for this playlist
-        await waitForPlaylistCompletion(name, stateManager, logger, 1000, downloadManager);
+        queuedPlaylists.push(name);
+      } catch (error: any) {
+        logger.error(`Error processing playlist ${name}: ${error.message}`);
+      }
+    }
+    
+    // Downloads of all playlists now run side by side
+    stateManager.setCurrentPlaylist('');
+    
+    // Wait for all playlists, reporting each one as soon as it is done
+    await Promise.all(queuedPlaylists.map(async name => {
+      try {
+        await waitForPlaylistCompletion(name, stateManager, logger, downloadManager, config.stallWarningMs);
         
         // Log final playlist state
         const finalState = stateManager.getPlaylistDetailedState(name);
@@ -184,10 +497,23 @@ async function main() {
       } catch (error: any) {
         logger.error(`Error processing playlist ${name}: ${error.message}`);
       }
-    }
+    }));
+    
+    // Links for the last referenced files may still be copied, tagged or hashed
+    await referenceLinker.drain();
     
     logger.info('All playlists processed');
     
+    // Written at the end so links created for later playlists are included
+    for (const { name } of playlistsToDownload) {
+      await writeChecksumManifest(config.outputDir, name, stateManager.getPlaylistState(name)?.tracks || []);
+    }
+    
+    const missingArtwork = artworkService.getMissingGames();
+    if (missingArtwork.length > 0) {
+      logger.warn(`${missingArtwork.length} games have no cover art (see the missing-artwork command)`);
+    }
+    
     // Clean up
     if (progressTracker) {
       progressTracker.stop();
@@ -212,73 +538,112 @@ async function main() {
 }
 
 /**
- * Wait for all tracks in a playlist to complete downloading or timeout
+ * Wait until the download manager has no more work for a playlist: every
+ * queued track finished, failed for good, was skipped or cancelled, and no
+ * retry is scheduled. Driven by download events; a playlist without progress for
+ * stallWarningMs is reported, but waited for all the same.
  */
-async function waitForPlaylistCompletion(
+function waitForPlaylistCompletion(
   playlistName: string, 
   stateManager: StateManager,
   logger: Logger,
-  checkIntervalMs: number = 1000,
-  downloadManager: DownloadManager
+  downloadManager: DownloadManager,
+  stallWarningMs: number
 ): Promise<void> {
   return new Promise<void>((resolve) => {
-    const startTime = Date.now();
     let lastProgressTime = Date.now();
-    let lastCompletedCount = 0;
+    let stallTimer: NodeJS.Timeout | null = null;
     
-    const checkComplete = () => {
-      const playlistStats = stateManager.getPlaylistStats(playlistName);
-      
-      // Check if there are no more pending tracks or active downloads
-      const pendingTracks = stateManager.getPendingTracks(playlistName);
-      const activeDownloads = downloadManager.getActiveDownloadsForPlaylist(playlistName);
-      
-      // Track progress
-      if (playlistStats.completed > lastCompletedCount) {
-        lastCompletedCount = playlistStats.completed;
+    const onActivity = (item: Track | DownloadProgress) => {
+      const track = 'track' in item ? item.track : item;
+      if (track.playlistName === playlistName) {
         lastProgressTime = Date.now();
       }
-      
-      // Case 1: Normal completion - no more pending tracks or active downloads
-      if (pendingTracks.length === 0 && activeDownloads.length === 0) {
-        logger.info(`All tracks in playlist ${playlistName} are processed (${playlistStats.completed}/${playlistStats.total} completed, ${playlistStats.failed} failed)`);
-        resolve();
-        return;
-      }
-      
-      // Case 2: No recent progress for 2 minutes - force completion
-      const noProgressTime = Date.now() - lastProgressTime;
-      if (noProgressTime > 2 * 60 * 1000) {
-        logger.info(`No progress for ${Math.floor(noProgressTime/1000)} seconds in playlist ${playlistName}. Moving to next playlist.`);
-        // Mark playlist as completed in state
-        if (stateManager.getPlaylistState(playlistName)) {
-          stateManager.getPlaylistState(playlistName).completed = true;
-          stateManager.saveState();
-        }
-        resolve();
-        return;
-      }
-      
-      // Case 3: Total timeout - 10 minutes max per playlist
-      if (Date.now() - startTime > 10 * 60 * 1000) {
-        logger.info(`Reached maximum time (10 minutes) for playlist ${playlistName}. Moving to next playlist.`);
-        // Mark playlist as completed in state
-        if (stateManager.getPlaylistState(playlistName)) {
-          stateManager.getPlaylistState(playlistName).completed = true;
-          stateManager.saveState();
-        }
-        resolve();
-        return;
+    };
+    
+    // Finished tracks leave the in-progress list right after their event
+    const onSettled = () => setImmediate(checkComplete);
+    
+    const events: Array<[string, (...args: any[]) => void]> = [
+      ['progress', onActivity],
+      ['start', onActivity],
+      ['retry', onActivity],
+      ['complete', onSettled],
+      ['fail', onSettled],
+      ['skip', onSettled],
+      ['cancel', onSettled],
+      ['cancel-all', onSettled],
+      ['queue-empty', onSettled]
+    ];
+    
+    const finish = () => {
+      events.forEach(([event, listener]) => downloadManager.off(event, listener));
+      if (stallTimer) {
+        clearInterval(stallTimer);
       }
       
-      // Continue checking
-      setTimeout(checkComplete, checkIntervalMs);
+      const playlistStats = stateManager.getPlaylistStats(playlistName);
+      logger.info(`All tracks in playlist ${playlistName} are processed (${playlistStats.completed}/${playlistStats.total} completed, ${playlistStats.failed} failed)`);
+      resolve();
     };
     
+    function checkComplete() {
+      const work = downloadManager.getPendingWork(playlistName);
+      if (work.queued + work.active + work.retrying === 0) {
+        finish();
+      }
+    }
+    
+    events.forEach(([event, listener]) => downloadManager.on(event, listener));
+    
+    if (stallWarningMs > 0) {
+      // Repeated every stallWarningMs while the stall lasts
+      let reportedAt = 0;
+      stallTimer = setInterval(() => {
+        const now = Date.now();
+        const stalledMs = now - lastProgressTime;
+        if (stalledMs < stallWarningMs || now - reportedAt < stallWarningMs || downloadManager.getStats().paused) return;
+        
+        const work = downloadManager.getPendingWork(playlistName);
+        logger.warn(
+          `No download progress in playlist ${playlistName} for ${Math.floor(stalledMs / 1000)} seconds ` +
+          `(${work.queued} queued, ${work.active} downloading, ${work.retrying} waiting to retry)`
+        );
+        reportedAt = now;
+      }, Math.min(stallWarningMs, 10000));
+    }
+    
     checkComplete();
   });
 }
 
+/**
+ * Split a comma-separated option value (--playlists, track filters)
+ */
+function parseList(value?: string): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(item => item !== '') : undefined;
+}
+
+/**
+ * Parse a "min-max" range of concurrent downloads (NaN bounds are rejected later)
+ */
+function parseConcurrencyRange(value: string): { min: number, max: number } {
+  const [min, max] = value.split('-').map(bound => parseInt(bound, 10));
+  return { min, max: max ?? NaN };
+}
+
+/**
+ * Console logger for the one-shot commands
+ */
+function createCommandLogger(options: any): Logger {
+  return new Logger({
+    level: getLogLevel(options.logLevel),
+    logToConsole: true,
+    logToFile: !!options.logFile,
+    logFilePath: options.logFile
+  });
+}
+
 function getLogLevel(level: string): LogLevel {
   switch (level.toLowerCase()) {
     case 'debug': return LogLevel.DEBUG;
@@ -325,8 +690,39 @@ function setupSignalHandlers(
   });
 }
 
+/**
+ * Follow the bandwidth schedule, and re-read the bandwidth settings from the
+ * config file on SIGHUP so the limit can be changed while downloading
+ */
+function setupBandwidthControl(
+  logger: Logger,
+  downloadManager: DownloadManager,
+  config: AppConfig,
+  configPath?: string
+) {
+  const maxBandwidthOption = program.opts().maxBandwidth;
+  const apply = () => {
+    try {
+      downloadManager.setMaxBandwidth(resolveBandwidthLimit(config.maxBandwidth, config.bandwidthSchedule));
+    } catch (error: any) {
+      logger.error(`Bandwidth settings not applied: ${error.message}`);
+    }
+  };
+  
+  // Schedule windows start and end on whole minutes
+  setInterval(apply, 60 * 1000).unref();
+  
+  process.on('SIGHUP', () => {
+    const reloaded = loadConfig(configPath);
+    config.maxBandwidth = maxBandwidthOption || reloaded.maxBandwidth;
+    config.bandwidthSchedule = reloaded.bandwidthSchedule;
+    logger.info('Reloaded bandwidth settings');
+    apply();
+  });
+}
+
 // Start the application
-main().catch(error => {
+program.parseAsync(process.argv).catch(error => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
\ No newline at end of file
@@ -3,7 +3,8 @@ export enum TrackStatus {
     IN_PROGRESS = 'in_progress',
     COMPLETED = 'completed',
     FAILED = 'failed',
-    SKIPPED = 'skipped'
+    SKIPPED = 'skipped',
+    REMOVED = 'removed'     // No longer part of the upstream roster
   }
   
   export interface TrackMetadata {
@@ -11,6 +12,27 @@ export enum TrackStatus {
     artist: string;
     album?: string;
     year?: string;
+    composer?: string;      // Roster "comp" field
+    arranger?: string;      // Roster "arr" field
+    albumArtist?: string;
+    trackNumber?: number;   // 1-based position in the upstream roster
+    genre?: string;
+    comment?: string;       // Download URL
+    grouping?: string;      // Playlist name
+    compilation?: boolean;
+  }
+  
+  export interface RemoteFileInfo {
+    etag?: string;
+    lastModified?: string;
+    contentLength?: number;
+    checkedAt?: string;     // Last update check (ISO date)
+  }
+  
+  export interface FileChecksum {
+    sha256: string;
+    size: number;
+    modifiedAt: string;     // File modification time when hashed (ISO date)
   }
   
   export interface Track {
@@ -24,6 +46,7 @@ export enum TrackStatus {
     filePath: string;       // Full path where track will be saved
     fileExt: string;        // File extension (usually m4a)
     metadata: TrackMetadata; // Metadata to be written to the file
+    rosterIndex?: number;   // Position in the upstream roster's tracks array
     
     // For state tracking
     status?: TrackStatus;
@@ -31,6 +54,12 @@ export enum TrackStatus {
     totalBytes?: number;
     retryCount?: number;
     lastError?: string;
+    tagError?: string;      // Why writing the metadata tags failed, if it did
+    removedAt?: string;     // When the track was found missing from the roster (ISO date)
+    remote?: RemoteFileInfo; // Upstream validators of the downloaded file
+    partialRemote?: RemoteFileInfo; // Upstream validators of the partial .download file
+    backupPath?: string;    // Previous version of the file, kept while an update downloads
+    checksum?: FileChecksum; // Hash of the finished file (after tagging)
     
     // Source track properties (for reference)
     sourceTrack: any;      // Original track object from playlist
@@ -59,4 +88,9 @@ export enum TrackStatus {
     url: string;
     ext: string;
     new_id?: string;
+  }
+  
+  export interface RosterData {
+    metadata?: PlaylistMetadata;  // Only present for JSON rosters
+    tracks: NewPlaylistTrack[] | OldPlaylistTrack[];
   }
\ No newline at end of file
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sanitize } from 'sanitize-filename-ts';
+import { AppConfig } from '../config/config';
+import { Track } from '../models/track.model';
+import { embedCoverArt, readCoverArt } from '../utils/mp4-cover';
+import { Logger } from './logger.service';
+
+// Image types looked up by game name, in order of preference
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png'];
+
+// File types the cover can be embedded into
+const COVER_FILE_EXTENSIONS = ['m4a', 'mp4'];
+
+// Album images written next to the files in folder-per-game layouts
+export const FOLDER_IMAGE_NAMES = ['folder.jpg', 'folder.png'];
+
+/**
+ * Finds cover art for games in a user-provided artwork folder and embeds it
+ * into downloaded files. Images are looked up through the mapping file first,
+ * then by sanitized game name ("<artworkDir>/<Game>.jpg").
+ */
+export class ArtworkService {
+  private artworkDir: string | null;
+  private mapping: { [game: string]: string } = {};
+  private cache: Map<string, string | null> = new Map();
+  private missingGames: Set<string> = new Set();
+  private folderPerGame: boolean;
+  
+  constructor(private logger: Logger, config: AppConfig) {
+    this.artworkDir = config.artworkDir ? path.resolve(config.baseDir, config.artworkDir) : null;
+    
+    // Album folders exist when the template's folder part depends on the game
+    this.folderPerGame = /\{(game|album|metadata\.album)\}/.test(path.dirname(config.fileNameTemplate));
+    
+    if (this.artworkDir) {
+      this.loadMapping(path.resolve(this.artworkDir, config.artworkMappingFile));
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.artworkDir !== null;
+  }
+
+  /**
+   * Find the cover image for a track's game, or null if there is none
+   */
+  public findArtwork(track: Track): string | null {
+    const game = getGame(track);
+    if (!this.artworkDir || !game) return null;
+    
+    if (!this.cache.has(game)) {
+      this.cache.set(game, this.lookupArtwork(game));
+    }
+    return this.cache.get(game)!;
+  }
+
+  /**
+   * Embed the game's cover into a track's file and write the album folder image.
+   * Returns the error message if embedding failed.
+   */
+  public async applyArtwork(track: Track): Promise<string | null> {
+    if (!this.artworkDir) return null;
+    
+    const imagePath = this.findArtwork(track);
+    if (!imagePath) {
+      const game = getGame(track);
+      if (game) this.missingGames.add(game);
+      return null;
+    }
+    
+    if (!COVER_FILE_EXTENSIONS.includes(track.fileExt.toLowerCase())) {
+      this.logger.debug(`Cannot embed cover art into .${track.fileExt} files: ${track.fileName}`);
+      return null;
+    }
+    
+    try {
+      await embedCoverArt(track.filePath, await fs.promises.readFile(imagePath));
+      await this.writeFolderImage(track, imagePath);
+      return null;
+    } catch (error: any) {
+      this.logger.error(`Error embedding cover art into ${track.fileName}: ${error.message}`);
+      return error.message || 'Unknown cover art error';
+    }
+  }
+
+  /**
+   * Check whether a track's file already has the game's cover embedded
+   */
+  public async hasCurrentArtwork(track: Track): Promise<boolean> {
+    const imagePath = this.findArtwork(track);
+    if (!imagePath || !COVER_FILE_EXTENSIONS.includes(track.fileExt.toLowerCase())) return true;
+    
+    try {
+      const embedded = await readCoverArt(track.filePath);
+      return !!embedded && embedded.equals(await fs.promises.readFile(imagePath));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Games seen in applyArtwork without a cover image
+   */
+  public getMissingGames(): string[] {
+    return Array.from(this.missingGames).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Games of the given tracks without a cover image
+   */
+  public findGamesWithoutArtwork(tracks: Track[]): string[] {
+    const games = new Set<string>();
+    tracks.forEach(track => {
+      const game = getGame(track);
+      if (game && !this.findArtwork(track)) games.add(game);
+    });
+    return Array.from(games).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Copy the cover next to the files as folder.jpg (or folder.png) in folder-per-game layouts
+   */
+  private async writeFolderImage(track: Track, imagePath: string): Promise<void> {
+    if (!this.folderPerGame) return;
+    
+    const ext = path.extname(imagePath).toLowerCase() === '.png' ? 'png' : 'jpg';
+    const folderImagePath = path.join(path.dirname(track.filePath), `folder.${ext}`);
+    if (!fs.existsSync(folderImagePath)) {
+      await fs.promises.copyFile(imagePath, folderImagePath);
+      this.logger.debug(`Wrote ${folderImagePath}`);
+    }
+  }
+
+  private lookupArtwork(game: string): string | null {
+    const dir = this.artworkDir!;
+    
+    const mapped = this.mapping[game] ??
+      Object.entries(this.mapping).find(([name]) => name.toLowerCase() === game.toLowerCase())?.[1];
+    if (mapped) {
+      const mappedPath = path.resolve(dir, mapped);
+      if (fs.existsSync(mappedPath)) return mappedPath;
+      this.logger.warn(`Artwork for ${game} not found: ${mappedPath}`);
+    }
+    
+    // Match file names case-insensitively
+    const baseName = sanitize(game).toLowerCase();
+    const files = this.listArtworkDir();
+    for (const ext of IMAGE_EXTENSIONS) {
+      const file = files.find(name => name.toLowerCase() === `${baseName}.${ext}`);
+      if (file) return path.join(dir, file);
+    }
+    
+    return null;
+  }
+
+  private listArtworkDir(): string[] {
+    try {
+      return fs.readdirSync(this.artworkDir!);
+    } catch (error: any) {
+      this.logger.error(`Error reading artwork directory ${this.artworkDir}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private loadMapping(mappingPath: string): void {
+    if (!fs.existsSync(mappingPath)) return;
+    
+    try {
+      this.mapping = JSON.parse(fs.readFileSync(mappingPath, 'utf8'));
+      this.logger.info(`Loaded ${Object.keys(this.mapping).length} artwork mappings from ${mappingPath}`);
+    } catch (error: any) {
+      this.logger.error(`Error loading artwork mapping from ${mappingPath}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Game a track belongs to (XML rosters only have the album)
+ */
+function getGame(track: Track): string | undefined {
+  return track.game || track.metadata.album;
+}
\ No newline at end of file
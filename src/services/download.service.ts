@@ -1,9 +1,15 @@
-import axios, { AxiosRequestConfig } from 'axios';
+import axios from 'axios';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Track, TrackStatus } from '../models/track.model';
-import { RateLimiter } from '../utils/rate-limiter';
+import { AdaptiveConcurrency } from '../utils/adaptive-concurrency';
+import { BandwidthLimiter } from '../utils/bandwidth-limiter';
+import { DownloadTimeouts, DownloadWatchdog } from '../utils/download-watchdog';
+import { formatSize } from '../utils/formatter';
+import { getHost, HostRateLimiter } from '../utils/host-rate-limiter';
+import { getRangeValidator, parseContentRange, parseRetryAfter, readRemoteFileInfo } from '../utils/remote-file';
+import { ArtworkService } from './artwork.service';
 import { FileService } from './file.service';
 import { Logger } from './logger.service';
 import { StateManager } from './state.service';
@@ -21,8 +27,27 @@ export interface DownloadManagerOptions {
   retryDelayMs: number;
   maxRetries: number;
   chunkSize?: number;
+  checkpointIntervalMs?: number;  // Record partial progress at least this often
+  checkpointBytes?: number;       // ...and after this many bytes
+  maxBandwidth?: number | null;   // Bytes per second shared by all downloads
+  hostRequestsPerMinute?: { [host: string]: number }; // Request rates of specific hosts
+  adaptiveConcurrency?: { min: number, max: number }; // Tune maxConcurrent within these bounds
+  timeouts?: Partial<DownloadTimeouts>;   // Abort stalled requests (defaults 15s/30s/60s)
 }
 
+// Partial download checkpoint defaults
+const DEFAULT_CHECKPOINT_INTERVAL_MS = 5000;
+const DEFAULT_CHECKPOINT_BYTES = 1024 * 1024;
+
+// Minimum time between progress events of a download
+const PROGRESS_EVENT_INTERVAL_MS = 100;
+
+const DEFAULT_TIMEOUTS: DownloadTimeouts = {
+  connectMs: 15 * 1000,
+  firstByteMs: 30 * 1000,
+  idleMs: 60 * 1000
+};
+
 export class DownloadManager extends EventEmitter {
   private queue: Track[] = [];
   private inProgress: Map<string, { 
@@ -34,7 +59,13 @@ export class DownloadManager extends EventEmitter {
       percentage: number 
     } 
   }> = new Map();
-  private rateLimiter: RateLimiter;
+  private rateLimiter: HostRateLimiter;
+  private starting: Map<string, Track> = new Map();   // Taken from the queue, waiting for their host's token
+  private retryTimers: Map<string, { track: Track, timer: NodeJS.Timeout }> = new Map();
+  private bandwidthLimiter: BandwidthLimiter;
+  private concurrency: AdaptiveConcurrency | null = null;
+  private playlistWeights: Map<string, number> = new Map();
+  private startedPerPlaylist: Map<string, number> = new Map();
   private isProcessing: boolean = false;
   private paused: boolean = false;
   
@@ -47,15 +78,24 @@ export class DownloadManager extends EventEmitter {
       requestsPerMinute: 30,
       retryDelayMs: 1000,
       maxRetries: 5
-    }
+    },
+    private artworkService?: ArtworkService
   ) {
     super();
     
     // Set up rate limiter to avoid hitting server limits
-    this.rateLimiter = new RateLimiter({
-      tokensPerInterval: options.requestsPerMinute,
-      interval: 60 * 1000, // 1 minute
-    });
+    this.rateLimiter = new HostRateLimiter(options.requestsPerMinute, options.hostRequestsPerMinute);
+    
+    // Byte rate limit shared between all active downloads
+    this.bandwidthLimiter = new BandwidthLimiter(options.maxBandwidth ?? null);
+    
+    if (options.adaptiveConcurrency) {
+      this.concurrency = new AdaptiveConcurrency({
+        ...options.adaptiveConcurrency,
+        initial: options.maxConcurrent
+      });
+      setInterval(() => this.adjustConcurrency(), 1000).unref();
+    }
   }
 
   /**
@@ -68,6 +108,13 @@ export class DownloadManager extends EventEmitter {
       !this.queue.some(t => t.id === track.id)
     );
     
+    // Playlists joining later start level with the others instead of catching up
+    for (const track of newTracks) {
+      if (!this.startedPerPlaylist.has(track.playlistName)) {
+        this.startedPerPlaylist.set(track.playlistName, this.getMinimumShare() * this.getPlaylistWeight(track.playlistName));
+      }
+    }
+    
     this.queue.push(...newTracks);
     this.logger.info(`Added ${newTracks.length} tracks to download queue. Queue size: ${this.queue.length}`);
     
@@ -88,52 +135,121 @@ export class DownloadManager extends EventEmitter {
     
     this.isProcessing = true;
     
-    while (this.queue.length > 0 && this.inProgress.size < this.options.maxConcurrent) {
-      // Wait for rate limiting token
-      await this.rateLimiter.removeTokens(1);
-      
+    while (this.queue.length > 0 && this.inProgress.size + this.starting.size < this.getConcurrencyLimit()) {
       // Get next track from queue with highest priority
       const track = this.getNextTrack();
       if (!track) break;
       
-      // Start download and remove from queue
-      this.startDownload(track);
-      
-      // Remove track from queue
+      // Remove track from queue so a concurrent pass does not start it as well
       const index = this.queue.findIndex(t => t.id === track.id);
       if (index !== -1) {
         this.queue.splice(index, 1);
       }
+      
+      this.startedPerPlaylist.set(track.playlistName, (this.startedPerPlaylist.get(track.playlistName) || 0) + 1);
+      
+      // Wait for rate limiting token of the track's host
+      this.starting.set(track.id, track);
+      try {
+        await this.rateLimiter.removeToken(track.downloadUrl);
+      } finally {
+        this.starting.delete(track.id);
+      }
+      
+      // Start download
+      this.startDownload(track);
     }
     
-    if (this.queue.length === 0 && this.inProgress.size === 0) {
+    if (this.queue.length === 0 && this.inProgress.size === 0 && this.starting.size === 0 && this.retryTimers.size === 0) {
       this.isProcessing = false;
       this.emit('queue-empty');
       this.logger.info('Download queue is empty');
-    } else if (this.inProgress.size < this.options.maxConcurrent && this.queue.length > 0) {
+    } else if (this.inProgress.size < this.getConcurrencyLimit() && this.queue.length > 0) {
       // Continue processing after a short delay
       setTimeout(() => this.processQueue(), 500);
     }
   }
 
+  /**
+   * Number of downloads allowed to run at the same time
+   */
+  private getConcurrencyLimit(): number {
+    return this.concurrency ? this.concurrency.getLevel() : this.options.maxConcurrent;
+  }
+
+  /**
+   * Let the adaptive concurrency controller measure and adjust, starting
+   * more downloads right away when it raised the level
+   */
+  private adjustConcurrency(): void {
+    if (!this.concurrency) return;
+    
+    this.concurrency.recordActive(this.inProgress.size);
+    if (this.concurrency.evaluate()) {
+      this.logger.info(`Concurrency adjusted to ${this.concurrency.getLevel()}`);
+      this.emit('concurrency', this.concurrency.getLevel());
+      
+      if (!this.paused && this.queue.length > 0) {
+        this.processQueue();
+      }
+    }
+  }
+
   /**
    * Get the next track to download, prioritizing:
-   * 1. Previously failed tracks with lower retry counts
+   * 1. Previously failed tracks waiting for their retry
    * 2. Regular pending tracks
+   * Tracks whose host can take a request right away go first, tracks of
+   * paused hosts wait in the queue without taking a slot. Within each
+   * group, playlists get download slots in proportion to their weights.
    */
   private getNextTrack(): Track | undefined {
-    // First try to find a failed track with retries left
-    const failedTrack = this.queue.find(track => 
-      track.status === TrackStatus.FAILED && 
-      (track.retryCount || 0) < this.options.maxRetries
-    );
+    // The retry limit is checked when a retry is scheduled; a queued track
+    // that reached it is on its last attempt and must not be left behind
+    const isRetry = (track: Track) => track.status === TrackStatus.FAILED;
+    const isPending = (track: Track) => !isRetry(track);
+    const isReady = (track: Track) => this.rateLimiter.isReady(track.downloadUrl);
+    const isOpen = (track: Track) => !this.rateLimiter.isPaused(track.downloadUrl);
     
-    if (failedTrack) return failedTrack;
+    return this.findByWeight(track => isRetry(track) && isReady(track)) ||
+      this.findByWeight(track => isPending(track) && isReady(track)) ||
+      this.findByWeight(track => isRetry(track) && isOpen(track)) ||
+      this.findByWeight(track => isPending(track) && isOpen(track));
+  }
+
+  /**
+   * First matching queued track of the playlist furthest behind its weighted share
+   */
+  private findByWeight(matches: (track: Track) => boolean): Track | undefined {
+    let next: Track | undefined;
+    let nextShare = Infinity;
+    const seen = new Set<string>();
     
-    // Otherwise just take the first pending track
-    return this.queue.find(track => 
-      track.status === TrackStatus.PENDING
-    );
+    for (const track of this.queue) {
+      if (seen.has(track.playlistName) || !matches(track)) continue;
+      seen.add(track.playlistName);
+      
+      const share = (this.startedPerPlaylist.get(track.playlistName) || 0) / this.getPlaylistWeight(track.playlistName);
+      if (share < nextShare) {
+        next = track;
+        nextShare = share;
+      }
+    }
+    
+    return next;
+  }
+
+  /**
+   * Smallest weighted share among the playlists that still have queued tracks
+   */
+  private getMinimumShare(): number {
+    const shares = [...new Set(this.queue.map(track => track.playlistName))]
+      .map(name => (this.startedPerPlaylist.get(name) || 0) / this.getPlaylistWeight(name));
+    return shares.length > 0 ? Math.min(...shares) : 0;
+  }
+
+  private getPlaylistWeight(playlistName: string): number {
+    return this.playlistWeights.get(playlistName) || 1;
   }
 
   /**
@@ -165,6 +281,9 @@ export class DownloadManager extends EventEmitter {
     // Emit start event
     this.emit('start', track);
     
+    // Abort connections and streams that stop making progress
+    const watchdog = new DownloadWatchdog(abortController, { ...DEFAULT_TIMEOUTS, ...this.options.timeouts });
+    
     try {
       // Check if file already exists and is complete
       const fileInfo = await this.fileService.getFileInfo(track.filePath);
@@ -189,62 +308,107 @@ export class DownloadManager extends EventEmitter {
       // Set up temporary file path for download
       const tempFilePath = `${track.filePath}.download`;
       
-      // Check if we can resume a partial download
-      let startByte = 0;
-      if (track.bytesDownloaded && track.bytesDownloaded > 0) {
-        try {
-          const stats = await fs.promises.stat(tempFilePath);
-          if (stats.size === track.bytesDownloaded) {
-            startByte = stats.size;
-            this.logger.debug(`Resuming download for ${track.fileName} from byte ${startByte}`);
-          } else {
-            this.logger.debug(`Temp file size (${stats.size}) doesn't match recorded bytes downloaded (${track.bytesDownloaded}), starting from 0`);
-            track.bytesDownloaded = 0;
-          }
-        } catch (err) {
-          // File doesn't exist or can't be accessed, start from beginning
-          this.logger.debug(`No temp file found for ${track.fileName}, starting from beginning`);
-          track.bytesDownloaded = 0;
+      // Resume from whatever reached the disk; the recorded counter can lag behind
+      // the last checkpoint. The server validates the partial file through If-Range
+      // and Content-Range.
+      let startByte = await this.getPartialDownloadSize(tempFilePath);
+      if (startByte > 0) {
+        if (startByte !== track.bytesDownloaded) {
+          this.logger.debug(`Temp file size (${startByte}) differs from recorded bytes downloaded (${track.bytesDownloaded || 0}), resuming from the file size`);
         }
+        track.bytesDownloaded = startByte;
+      } else {
+        track.bytesDownloaded = 0;
       }
+      const recordedTotalBytes = track.totalBytes;
       
-      // Set up request with resume headers if needed
-      const config: AxiosRequestConfig = {
-        responseType: 'stream',
-        signal: abortController.signal, // Use AbortSignal
-        headers: {}
-      };
-      
+      // Set up request with resume headers if needed. If-Range makes the server
+      // send the whole file instead if it changed since the partial download.
+      const headers: { [name: string]: string } = {};
       if (startByte > 0) {
-        config.headers!['Range'] = `bytes=${startByte}-`;
+        headers['Range'] = `bytes=${startByte}-`;
+        const validator = getRangeValidator(track.partialRemote);
+        if (validator) {
+          headers['If-Range'] = validator;
+        }
         this.logger.info(`Resuming download for ${track.fileName} from byte ${startByte}`);
       }
       
       // Download the file
-      const response = await axios.get(track.downloadUrl, config);
+      const response = await axios.get(track.downloadUrl, {
+        responseType: 'stream',
+        signal: abortController.signal, // Use AbortSignal
+        headers,
+        ...watchdog.start()
+      });
       
-      // Get total size
-      const totalBytes = parseInt(response.headers['content-length'] || '0', 10) + startByte;
+      // Get total size from the range or, for full responses, the body length
+      const contentLength = parseInt(String(response.headers['content-length'] || '0'), 10);
+      let totalBytes: number;
+      if (response.status === 206) {
+        const range = parseContentRange(response.headers['content-range']);
+        if (!range || range.start !== startByte) {
+          response.data.destroy();
+          await this.discardPartialDownload(track, tempFilePath);
+          throw createDownloadError(`Unexpected Content-Range "${response.headers['content-range']}" for byte ${startByte}`, 'ERR_BAD_RANGE');
+        }
+        totalBytes = range.total ?? startByte + contentLength;
+        
+        // Without a validator for If-Range a different total size is the only sign of a changed file
+        if (!headers['If-Range'] && recordedTotalBytes && totalBytes !== recordedTotalBytes) {
+          response.data.destroy();
+          await this.discardPartialDownload(track, tempFilePath);
+          throw createDownloadError(`Upstream size changed from ${recordedTotalBytes} to ${totalBytes} bytes`, 'ERR_BAD_RANGE');
+        }
+      } else {
+        if (startByte > 0) {
+          this.logger.info(`Server sent the whole file for ${track.fileName}, restarting download`);
+          startByte = 0;
+        }
+        totalBytes = contentLength;
+        
+        // Remember which version the partial file is part of for If-Range
+        this.stateManager.setPartialRemoteInfo(track.playlistName, track.id, readRemoteFileInfo(response.headers));
+      }
       track.totalBytes = totalBytes;
       
+      // Validators are recorded once the file is complete, so an interrupted
+      // update is not taken for the current upstream version
+      const remote = readRemoteFileInfo(response.headers, totalBytes || undefined);
+      
       // Create or open the file for writing
       const fileMode = startByte > 0 ? 'a' : 'w';
       const writer = fs.createWriteStream(tempFilePath, { flags: fileMode });
       
-      // Set up progress tracking
+      // Set up progress tracking and checkpoints
+      const checkpointIntervalMs = this.options.checkpointIntervalMs ?? DEFAULT_CHECKPOINT_INTERVAL_MS;
+      const checkpointBytes = this.options.checkpointBytes ?? DEFAULT_CHECKPOINT_BYTES;
       let downloadedBytes = startByte;
+      let lastCheckpointAt = Date.now();
+      let lastCheckpointBytes = startByte;
+      let lastProgressAt = 0;
+      
       response.data.on('data', (chunk: Buffer) => {
+        watchdog.activity();
         downloadedBytes += chunk.length;
+        this.concurrency?.recordBytes(chunk.length);
+        const now = Date.now();
         
-        // Update progress more frequently
-        if (downloadedBytes % 51200 === 0 || downloadedBytes === totalBytes) { // Every 50KB
-          // Update track state
+        // Checkpoint the bytes the write stream has handed to the file, not
+        // the bytes received, so a resume never skips data still buffered
+        if (now - lastCheckpointAt >= checkpointIntervalMs || downloadedBytes - lastCheckpointBytes >= checkpointBytes) {
           this.stateManager.updateTrackStatus(
             track.playlistName,
             track.id,
             TrackStatus.IN_PROGRESS,
-            downloadedBytes
+            startByte + writer.bytesWritten
           );
+          lastCheckpointAt = now;
+          lastCheckpointBytes = downloadedBytes;
+        }
+        
+        if (now - lastProgressAt >= PROGRESS_EVENT_INTERVAL_MS || downloadedBytes === totalBytes) {
+          lastProgressAt = now;
           
           // Calculate percentage properly
           const percentage = totalBytes > 0 ? Math.round((downloadedBytes / totalBytes) * 100) : 0;
@@ -275,18 +439,48 @@ export class DownloadManager extends EventEmitter {
         }
       });
       
-      // Wait for download to complete
+      // Wait for download to complete. An aborted or broken response closes
+      // the file with what arrived so far, to resume from there.
       await new Promise<void>((resolve, reject) => {
-        writer.on('finish', resolve);
+        const throttle = this.bandwidthLimiter.createThrottle();
+        let streamError: Error | null = null;
+        
+        writer.on('finish', () => streamError ? reject(streamError) : resolve());
         writer.on('error', reject);
-        response.data.pipe(writer);
+        response.data.on('error', (error: Error) => {
+          streamError = error;
+          throttle.unpipe(writer);
+          writer.end();
+        });
+        response.data.pipe(throttle).pipe(writer);
       });
+      watchdog.stop();
+      
+      // A body cut short or longer than announced is not the upstream file
+      const tempFileSize = (await fs.promises.stat(tempFilePath)).size;
+      if (totalBytes > 0 && tempFileSize !== totalBytes) {
+        if (tempFileSize > totalBytes) {
+          await this.discardPartialDownload(track, tempFilePath);
+        }
+        throw createDownloadError(`Downloaded ${tempFileSize} of ${totalBytes} bytes`, 'ERR_INCOMPLETE');
+      }
       
       // Move temp file to final location
       await fs.promises.rename(tempFilePath, track.filePath);
+      this.stateManager.setPartialRemoteInfo(track.playlistName, track.id, null);
       
-      // Set track metadata
-      await this.fileService.setMetadata(track.filePath, track.metadata);
+      // Set track metadata and cover, keeping tagging failures in state for the retag command
+      const tagError = await this.fileService.setMetadata(track.filePath, track.metadata);
+      const artworkError = this.artworkService ? await this.artworkService.applyArtwork(track) : null;
+      this.stateManager.setTagError(track.playlistName, track.id, tagError || artworkError);
+      this.stateManager.setRemoteInfo(track.playlistName, track.id, remote);
+      this.stateManager.setChecksum(track.playlistName, track.id, await this.fileService.calculateChecksum(track.filePath));
+      
+      // The previous version of an updated file is no longer needed
+      if (track.backupPath) {
+        await fs.promises.rm(track.backupPath, { force: true });
+        this.stateManager.clearBackupPath(track.playlistName, track.id);
+      }
       
       // Mark download as complete
       this.stateManager.updateTrackStatus(
@@ -300,14 +494,49 @@ export class DownloadManager extends EventEmitter {
       this.emit('complete', track);
       
     } catch (error: any) {
+      // Timeouts abort the request like a cancel, but are retried
+      error = watchdog.getTimeoutError() || error;
+      
       // Check if the error is due to cancellation
       if (error.name === 'AbortError' || error.code === 'ERR_CANCELED') {
         this.logger.info(`Download cancelled for ${track.fileName}`);
+        this.emit('cancel', track);
         return;
       }
       
       const errorMessage = error.message || 'Unknown error';
       
+      if (error.response && error.response.status === 416) {
+        await this.discardPartialDownload(track, `${track.filePath}.download`);
+      } else {
+        // Record what reached the disk since the last checkpoint
+        track.bytesDownloaded = await this.getPartialDownloadSize(`${track.filePath}.download`);
+      }
+      
+      // Timeouts, resets and throttling mean more parallel downloads would not help
+      if (this.concurrency && this.isCongestionError(error) && this.concurrency.recordCongestion()) {
+        this.logger.info(`Concurrency reduced to ${this.concurrency.getLevel()} after: ${errorMessage}`);
+        this.emit('concurrency', this.concurrency.getLevel());
+      }
+      
+      // A server asking to wait pauses all requests to its host, the track
+      // then waits in the queue like the others instead of backing off alone
+      const retryAfterMs = this.getRetryAfter(error);
+      if (retryAfterMs !== null) {
+        this.rateLimiter.pauseHost(track.downloadUrl, retryAfterMs);
+        this.logger.warn(
+          `${getHost(track.downloadUrl)} asked to wait ${Math.ceil(retryAfterMs / 1000)}s ` +
+          `(HTTP ${error.response.status}), pausing its requests`
+        );
+        
+        // Being throttled is not a failed attempt: the track goes back to
+        // the queue without counting a retry and starts once the host resumes
+        this.stateManager.updateTrackStatus(track.playlistName, track.id, TrackStatus.PENDING, track.bytesDownloaded);
+        this.queue.push(track);
+        this.emit('retry', track, errorMessage);
+        return;
+      }
+      
       // Determine whether to retry based on error type
       const shouldRetry = this.shouldRetryError(error) &&
                          (track.retryCount || 0) < this.options.maxRetries;
@@ -331,14 +560,23 @@ export class DownloadManager extends EventEmitter {
         const retryDelay = this.calculateRetryDelay(track.retryCount || 0);
         this.logger.info(`Retrying ${track.fileName} in ${retryDelay}ms`);
         
-        setTimeout(() => {
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(track.id);
           this.queue.push(track);
           this.emit('retry', track, errorMessage);
+          
+          if (!this.paused) {
+            this.processQueue();
+          }
         }, retryDelay);
+        this.retryTimers.set(track.id, { track, timer });
       } else {
+        await this.restoreBackup(track);
         this.emit('fail', track, errorMessage);
       }
     } finally {
+      watchdog.stop();
+      
       // Remove from in-progress map
       this.inProgress.delete(track.id);
       
@@ -347,6 +585,41 @@ export class DownloadManager extends EventEmitter {
     }
   }
 
+  /**
+   * Length of a partial download on disk (0 if there is none)
+   */
+  private async getPartialDownloadSize(tempFilePath: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(tempFilePath)).size;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  /**
+   * Delete a partial download that cannot be resumed, so the next attempt starts over
+   */
+  private async discardPartialDownload(track: Track, tempFilePath: string): Promise<void> {
+    await fs.promises.rm(tempFilePath, { force: true });
+    track.bytesDownloaded = 0;
+    this.stateManager.setPartialRemoteInfo(track.playlistName, track.id, null);
+  }
+
+  /**
+   * Put the previous version of an updated file back when its update failed for good
+   */
+  private async restoreBackup(track: Track): Promise<void> {
+    if (!track.backupPath) return;
+    
+    try {
+      await fs.promises.rename(track.backupPath, track.filePath);
+      this.stateManager.clearBackupPath(track.playlistName, track.id);
+      this.logger.info(`Kept previous version of ${track.fileName}`);
+    } catch (error: any) {
+      this.logger.error(`Error restoring previous version of ${track.fileName}: ${error.message}`);
+    }
+  }
+
   /**
    * Check if an error is retryable
    */
@@ -356,6 +629,16 @@ export class DownloadManager extends EventEmitter {
       return true;
     }
     
+    // Failed resumes start over (or continue) on the next attempt
+    if (error.code === 'ERR_BAD_RANGE' || error.code === 'ERR_INCOMPLETE') {
+      return true;
+    }
+    
+    // Range not satisfiable: the partial file does not fit the upstream file
+    if (error.response && error.response.status === 416) {
+      return true;
+    }
+    
     // Server errors (5xx) are retryable
     if (error.response && error.response.status >= 500 && error.response.status < 600) {
       return true;
@@ -374,6 +657,21 @@ export class DownloadManager extends EventEmitter {
     return false;
   }
 
+  private isCongestionError(error: any): boolean {
+    return ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED'].includes(error.code) ||
+      (error.response && error.response.status === 429);
+  }
+
+  /**
+   * Time a 429 or 503 response asks to wait before the next request, if it says
+   */
+  private getRetryAfter(error: any): number | null {
+    const status = error.response?.status;
+    if (status !== 429 && status !== 503) return null;
+    
+    return parseRetryAfter(error.response.headers?.['retry-after']);
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    */
@@ -384,6 +682,30 @@ export class DownloadManager extends EventEmitter {
     );
   }
 
+  /**
+   * Change the bandwidth limit (bytes per second, null for unlimited), also for running downloads
+   */
+  public setMaxBandwidth(bytesPerSecond: number | null): void {
+    if (bytesPerSecond === this.bandwidthLimiter.getLimit()) return;
+    
+    this.bandwidthLimiter.setLimit(bytesPerSecond);
+    this.logger.info(`Bandwidth limit: ${bytesPerSecond === null ? 'unlimited' : `${formatSize(bytesPerSecond)}/s`}`);
+  }
+
+  /**
+   * Give a playlist more (> 1) or fewer (< 1) download slots than the others
+   */
+  public setPlaylistWeight(playlistName: string, weight: number): void {
+    this.playlistWeights.set(playlistName, weight);
+  }
+
+  /**
+   * Per-host rate limiter shared by all requests to the playlist servers
+   */
+  public getRateLimiter(): HostRateLimiter {
+    return this.rateLimiter;
+  }
+
   /**
    * Pause download processing
    */
@@ -417,10 +739,20 @@ export class DownloadManager extends EventEmitter {
       return true;
     }
     
+    // Tracks that are not downloading are settled here, running ones when their request aborts
+    const retry = this.retryTimers.get(trackId);
+    if (retry) {
+      clearTimeout(retry.timer);
+      this.retryTimers.delete(trackId);
+      this.emit('cancel', retry.track);
+      return true;
+    }
+    
     // Check if it's in the queue
     const queueIndex = this.queue.findIndex(t => t.id === trackId);
     if (queueIndex !== -1) {
-      this.queue.splice(queueIndex, 1);
+      const [track] = this.queue.splice(queueIndex, 1);
+      this.emit('cancel', track);
       return true;
     }
     
@@ -438,6 +770,7 @@ export class DownloadManager extends EventEmitter {
     
     this.inProgress.clear();
     this.queue = [];
+    this.clearRetryTimers();
     
     this.logger.info('All downloads canceled');
     this.emit('cancel-all');
@@ -447,11 +780,34 @@ export class DownloadManager extends EventEmitter {
    * Clear the download queue without canceling in-progress downloads
    */
   public clearQueue(): void {
-    const queueSize = this.queue.length;
+    const queueSize = this.queue.length + this.retryTimers.size;
     this.queue = [];
+    this.clearRetryTimers();
     this.logger.info(`Cleared download queue (${queueSize} tracks removed)`);
   }
 
+  private clearRetryTimers(): void {
+    for (const [, retry] of this.retryTimers) {
+      clearTimeout(retry.timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Tracks of a playlist the download manager is still working on: queued
+   * (including those waiting for a request token), downloading, or waiting
+   * for a scheduled retry
+   */
+  public getPendingWork(playlistName: string): { queued: number, active: number, retrying: number } {
+    const inPlaylist = (track: Track) => track.playlistName === playlistName;
+    
+    return {
+      queued: this.queue.filter(inPlaylist).length + [...this.starting.values()].filter(inPlaylist).length,
+      active: [...this.inProgress.values()].filter(download => inPlaylist(download.track)).length,
+      retrying: [...this.retryTimers.values()].filter(retry => inPlaylist(retry.track)).length
+    };
+  }
+
   /**
    * Get current download statistics
    */
@@ -459,10 +815,20 @@ export class DownloadManager extends EventEmitter {
     return {
       queued: this.queue.length,
       active: this.inProgress.size,
-      paused: this.paused
+      retrying: this.retryTimers.size,
+      paused: this.paused,
+      concurrency: this.getConcurrencyLimit(),
+      adaptive: this.concurrency !== null
     };
   }
 
+  /**
+   * Get active downloads of all playlists with progress information
+   */
+  public getActiveDownloads(): Array<{track: Track, progress: any}> {
+    return [...this.inProgress.values()].map(({ track, progress }) => ({ track, progress }));
+  }
+
   /**
    * Get active downloads with progress information
    */
@@ -480,4 +846,11 @@ export class DownloadManager extends EventEmitter {
     
     return result;
   }
+}
+
+/**
+ * Error with a code for shouldRetryError, like the network errors
+ */
+function createDownloadError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Track, TrackStatus } from '../models/track.model';
+import { isReferenceTrack, normalizeDownloadUrl } from '../utils/track-reference';
+import { FileService } from './file.service';
+import { Logger } from './logger.service';
+import { ARCHIVE_DIR_NAME } from './playlist.service';
+import { StateManager } from './state.service';
+
+/**
+ * Moves files of tracks whose target path changed (new upstream title or file
+ * name template) to the new path, instead of downloading them again
+ */
+export class FileReconciler {
+  constructor(
+    private logger: Logger,
+    private stateManager: StateManager,
+    private fileService: FileService,
+    private outputDir: string
+  ) {}
+
+  /**
+   * Find existing files for tracks missing at their target path, first through
+   * the path recorded in state, then through the tags of unclaimed files.
+   * Matched files are moved, retagged and their tracks marked completed.
+   */
+  public async reconcile(playlistName: string, tracks: Track[]): Promise<number> {
+    const missingTracks = tracks.filter(track =>
+      track.status === TrackStatus.PENDING && !isReferenceTrack(track)
+    );
+    if (missingTracks.length === 0) return 0;
+    
+    // Paths of tracks in the current roster or in other playlists are never moved away,
+    // nor are files of tracks dropped from the roster (e.g. replaced by a re-upload)
+    const previousTracks: Track[] = this.stateManager.getPlaylistState(playlistName)?.tracks || [];
+    const rosterIds = new Set(tracks.map(track => track.id));
+    const claimedPaths = new Set(
+      this.stateManager.getAllPlaylists()
+        .filter(playlist => playlist.name !== playlistName)
+        .flatMap(playlist => this.stateManager.getPlaylistState(playlist.name).tracks)
+        .concat(tracks)
+        .concat(previousTracks.filter(track => !rosterIds.has(track.id)))
+        .map(track => path.resolve(track.filePath))
+    );
+    const previousById = new Map(previousTracks.map(track => [track.id, track]));
+    
+    let renamedCount = 0;
+    const unmatchedTracks: Track[] = [];
+    
+    for (const track of missingTracks) {
+      const previous = previousById.get(track.id);
+      const oldPath = previous && previous.filePath;
+      
+      if (oldPath && !claimedPaths.has(path.resolve(oldPath)) && fs.existsSync(oldPath)) {
+        if (await this.moveTrackFile(track, oldPath)) {
+          renamedCount++;
+        }
+      } else {
+        unmatchedTracks.push(track);
+      }
+    }
+    
+    if (unmatchedTracks.length > 0) {
+      renamedCount += await this.reconcileByTags(playlistName, unmatchedTracks, previousTracks, claimedPaths);
+    }
+    
+    if (renamedCount > 0) {
+      this.logger.info(`Renamed ${renamedCount} existing files in ${playlistName} to their new file names`);
+    }
+    
+    return renamedCount;
+  }
+
+  /**
+   * Match missing tracks against the tags of files no track claims, by
+   * download URL or, for files without one, by album and title. Ambiguous
+   * matches are left alone.
+   */
+  private async reconcileByTags(
+    playlistName: string,
+    missingTracks: Track[],
+    previousTracks: Track[],
+    claimedPaths: Set<string>
+  ): Promise<number> {
+    // Look in the playlist folder and wherever files of this playlist were stored before
+    const playlistDir = path.join(this.outputDir, playlistName);
+    const previousDirs = new Set(previousTracks.map(track => path.dirname(track.filePath)));
+    
+    const candidateFiles = this.listAudioFiles(playlistDir, true)
+      .concat(Array.from(previousDirs).flatMap(dir => this.listAudioFiles(dir, false)))
+      .filter((file, index, files) => files.indexOf(file) === index)
+      .filter(file => !claimedPaths.has(path.resolve(file)));
+    if (candidateFiles.length === 0) return 0;
+    
+    this.logger.debug(`Checking tags of ${candidateFiles.length} unclaimed files in ${playlistName}`);
+    
+    // Files tagged with their download URL (comment) only match that URL, as a
+    // different URL with the same title is a new upload; others match by album and title
+    const filesByKey = new Map<string, string[]>();
+    for (const file of candidateFiles) {
+      const metadata = await this.fileService.readMetadata(file);
+      if (!metadata || !metadata.title) continue;
+      
+      const key = metadata.comment && /^https?:\/\//i.test(metadata.comment.trim())
+        ? this.getUrlKey(metadata.comment.trim())
+        : this.getTagKey(metadata.album, metadata.title);
+      filesByKey.set(key, [...(filesByKey.get(key) || []), file]);
+    }
+    
+    const tracksByKey = new Map<string, Track[]>();
+    missingTracks.forEach(track => {
+      [this.getUrlKey(track.downloadUrl), this.getTagKey(track.metadata.album, track.metadata.title)].forEach(key => {
+        tracksByKey.set(key, [...(tracksByKey.get(key) || []), track]);
+      });
+    });
+    
+    let renamedCount = 0;
+    const movedFiles = new Set<string>();
+    for (const [key, keyTracks] of tracksByKey) {
+      const files = filesByKey.get(key);
+      if (!files || files.length !== 1 || keyTracks.length !== 1) continue;
+      if (movedFiles.has(files[0]) || keyTracks[0].status !== TrackStatus.PENDING) continue;
+      
+      if (await this.moveTrackFile(keyTracks[0], files[0])) {
+        movedFiles.add(files[0]);
+        renamedCount++;
+      }
+    }
+    
+    return renamedCount;
+  }
+
+  /**
+   * Move a track's old file to its target path, retag it and mark the track completed
+   */
+  private async moveTrackFile(track: Track, oldPath: string): Promise<boolean> {
+    try {
+      await this.fileService.ensureDirectory(path.dirname(track.filePath));
+      await this.fileService.moveFile(oldPath, track.filePath);
+      await this.fileService.setMetadata(track.filePath, track.metadata);
+      
+      const fileInfo = await this.fileService.getFileInfo(track.filePath);
+      track.status = TrackStatus.COMPLETED;
+      track.bytesDownloaded = fileInfo.size;
+      track.checksum = await this.fileService.calculateChecksum(track.filePath) || undefined;
+      
+      this.logger.info(`Renamed ${path.basename(oldPath)} -> ${track.fileName}`);
+      
+      // Don't leave empty folders of an old layout behind
+      const oldDir = path.dirname(oldPath);
+      if (path.resolve(oldDir) !== path.resolve(this.outputDir) && await this.fileService.isDirectoryEmpty(oldDir)) {
+        await fs.promises.rmdir(oldDir);
+      }
+      
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Error renaming ${oldPath} to ${track.filePath}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * List audio files in a directory (tree), leaving out temporary files and the archive
+   */
+  private listAudioFiles(dir: string, recursive: boolean): string[] {
+    if (!fs.existsSync(dir)) return [];
+    
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.name !== ARCHIVE_DIR_NAME && !entry.name.startsWith('.'))
+      .flatMap(entry => {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          return recursive ? this.listAudioFiles(entryPath, true) : [];
+        }
+        // Partial downloads and the previous versions of files being updated
+        return /\.(download|bak)$/.test(entry.name) ? [] : [entryPath];
+      });
+  }
+
+  private getUrlKey(url: string): string {
+    return `url|${normalizeDownloadUrl(url)}`;
+  }
+
+  private getTagKey(album: string | undefined, title: string): string {
+    return `${(album || '').trim().toLowerCase()}|${title.trim().toLowerCase()}`;
+  }
+}
\ No newline at end of file
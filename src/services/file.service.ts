@@ -1,11 +1,13 @@
 import * as fs from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
-import { TrackMetadata } from '../models/track.model';
+import { FileChecksum, TrackMetadata } from '../models/track.model';
 import { Logger } from './logger.service';
 
 // Use taglib3 for metadata operations
 const taglib = require('taglib3');
 const writeTagsAsync = promisify(taglib.writeTags);
+const readTagsAsync = promisify(taglib.readTags);
 
 export class FileService {
   constructor(private logger: Logger) {}
@@ -41,36 +43,78 @@ export class FileService {
   }
 
   /**
-   * Set metadata tags on a file
+   * Set metadata tags on a file. Returns the error message if tagging failed.
    */
-  public async setMetadata(filePath: string, metadata: TrackMetadata): Promise<void> {
+  public async setMetadata(filePath: string, metadata: TrackMetadata): Promise<string | null> {
     try {
-      // Convert metadata to format expected by taglib
-      const taglibMetadata: any = {};
-      
-      if (metadata.title) {
-        taglibMetadata.title = [metadata.title];
-      }
-      
-      if (metadata.artist) {
-        taglibMetadata.artist = [metadata.artist];
-      }
-      
-      if (metadata.album) {
-        taglibMetadata.album = [metadata.album];
-      }
-      
-      if (metadata.year) {
-        taglibMetadata.year = [metadata.year];
-      }
-      
-      await writeTagsAsync(filePath, taglibMetadata);
+      await writeTagsAsync(filePath, this.toTaglibProperties(metadata));
+      return null;
     } catch (error: any) {
       this.logger.error(`Error setting metadata for ${filePath}: ${error.message}`);
       // Don't throw here - we don't want to fail the download because of metadata
+      return error.message || 'Unknown tagging error';
     }
   }
 
+  /**
+   * Read the metadata tags of a file, or null if the file cannot be read
+   */
+  public async readMetadata(filePath: string): Promise<TrackMetadata | null> {
+    try {
+      const tags = await readTagsAsync(filePath);
+      const first = (key: string): string | undefined => tags[key] && tags[key][0];
+      const trackNumber = parseInt(first('TRACKNUMBER') || '', 10);
+      
+      return {
+        title: first('TITLE') || '',
+        artist: first('ARTIST') || '',
+        album: first('ALBUM'),
+        year: first('DATE'),
+        composer: first('COMPOSER'),
+        arranger: first('ARRANGER'),
+        albumArtist: first('ALBUMARTIST'),
+        trackNumber: isNaN(trackNumber) ? undefined : trackNumber,
+        genre: first('GENRE'),
+        comment: first('COMMENT'),
+        grouping: first('GROUPING'),
+        compilation: first('COMPILATION') ? first('COMPILATION') === '1' : undefined
+      };
+    } catch (error: any) {
+      this.logger.debug(`Error reading metadata from ${filePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Convert metadata to the taglib property map (tag entries are arrays of strings).
+   * Fields without a native MP4 atom, like ARRANGER, are stored as iTunes freeform tags.
+   */
+  private toTaglibProperties(metadata: TrackMetadata): { [key: string]: string[] } {
+    const values: { [key: string]: string | undefined } = {
+      TITLE: metadata.title,
+      ARTIST: metadata.artist,
+      ALBUM: metadata.album,
+      DATE: metadata.year,
+      COMPOSER: metadata.composer,
+      ARRANGER: metadata.arranger,
+      ALBUMARTIST: metadata.albumArtist,
+      TRACKNUMBER: metadata.trackNumber !== undefined ? String(metadata.trackNumber) : undefined,
+      GENRE: metadata.genre,
+      COMMENT: metadata.comment,
+      GROUPING: metadata.grouping,
+      COMPILATION: metadata.compilation !== undefined ? (metadata.compilation ? '1' : '0') : undefined
+    };
+    
+    const properties: { [key: string]: string[] } = {};
+    Object.entries(values).forEach(([key, value]) => {
+      if (value) {
+        properties[key] = [value];
+      }
+    });
+    
+    return properties;
+  }
+
   /**
    * Delete a file if it exists
    */
@@ -116,13 +160,38 @@ export class FileService {
     });
   }
 
+  /**
+   * Create a hardlink, symlink or copy of a file. Hardlinks fall back to
+   * a copy when the destination is on another device.
+   */
+  public async linkFile(sourcePath: string, destPath: string, mode: 'hardlink' | 'symlink' | 'copy'): Promise<void> {
+    await this.deleteFile(destPath);
+    
+    if (mode === 'hardlink') {
+      try {
+        await fs.promises.link(sourcePath, destPath);
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EXDEV') {
+          throw error;
+        }
+        this.logger.debug(`Cannot hardlink across devices, copying instead: ${destPath}`);
+      }
+    } else if (mode === 'symlink') {
+      await fs.promises.symlink(path.relative(path.dirname(destPath), sourcePath), destPath);
+      return;
+    }
+    
+    await fs.promises.copyFile(sourcePath, destPath);
+  }
+
   /**
    * Calculate the hash of a file (for integrity verification)
    */
-  public async calculateFileHash(filePath: string): Promise<string> {
+  public async calculateFileHash(filePath: string, algorithm: string = 'sha256'): Promise<string> {
     try {
       const crypto = await import('crypto');
-      const hash = crypto.createHash('md5');
+      const hash = crypto.createHash(algorithm);
       const stream = fs.createReadStream(filePath);
       
       return new Promise<string>((resolve, reject) => {
@@ -142,6 +211,24 @@ export class FileService {
     }
   }
 
+  /**
+   * Hash a finished file together with the size and modification time it had,
+   * or return null if it cannot be read
+   */
+  public async calculateChecksum(filePath: string): Promise<FileChecksum | null> {
+    try {
+      const stats = await fs.promises.stat(filePath);
+      return {
+        sha256: await this.calculateFileHash(filePath),
+        size: stats.size,
+        modifiedAt: stats.mtime.toISOString()
+      };
+    } catch (error: any) {
+      this.logger.error(`Error calculating checksum for ${filePath}: ${error.message}`);
+      return null;
+    }
+  }
+
   /**
    * Check if a directory is empty
    */
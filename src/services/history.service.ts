@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Track } from '../models/track.model';
+import { Logger } from './logger.service';
+import { getRosterNames } from './metadata-override.service';
+
+/**
+ * A track as listed upstream: matched between syncs by its stable ID, with
+ * the roster's own title and game so local overrides do not show as changes
+ */
+export interface RosterEntry {
+  id: string;
+  title: string;
+  game?: string;
+}
+
+export interface RosterDiff {
+  added: RosterEntry[];
+  removed: RosterEntry[];
+  retitled: Array<{ before: RosterEntry, after: RosterEntry }>;
+}
+
+export interface RosterHistoryEntry extends RosterDiff {
+  timestamp: Date;
+  trackCount: number;
+  initial: boolean;       // First sync of this playlist, nothing to diff against
+  changelog?: string;     // Upstream changelog at the time of the sync
+}
+
+interface PlaylistHistory {
+  lastSync: Date;
+  tracks: RosterEntry[];
+  entries: RosterHistoryEntry[];
+}
+
+interface RosterHistory {
+  playlists: {
+    [playlistName: string]: PlaylistHistory;
+  };
+}
+
+export class RosterHistoryService {
+  private history: RosterHistory;
+  private historyFilePath: string;
+  
+  constructor(baseDir: string = './', private logger: Logger) {
+    this.historyFilePath = path.join(baseDir, '.aersia-history.json');
+    this.history = this.loadHistory() || { playlists: {} };
+  }
+
+  private loadHistory(): RosterHistory | null {
+    try {
+      if (fs.existsSync(this.historyFilePath)) {
+        const history = JSON.parse(fs.readFileSync(this.historyFilePath, 'utf8')) as RosterHistory;
+        
+        // Convert string dates back to Date objects
+        Object.values(history.playlists).forEach(playlist => {
+          playlist.lastSync = new Date(playlist.lastSync);
+          playlist.entries.forEach(entry => {
+            entry.timestamp = new Date(entry.timestamp);
+          });
+        });
+        
+        return history;
+      }
+    } catch (error) {
+      this.logger.error(`Error loading roster history: ${error}`);
+    }
+    return null;
+  }
+
+  public saveHistory(): void {
+    try {
+      fs.writeFileSync(this.historyFilePath, JSON.stringify(this.history, null, 2));
+    } catch (error) {
+      this.logger.error(`Error saving roster history: ${error}`);
+    }
+  }
+
+  /**
+   * Diff a freshly fetched roster against the previous sync and persist the result.
+   * An entry is only appended when the roster or its changelog changed.
+   */
+  public recordSync(playlistName: string, tracks: Track[], changelog?: string): RosterHistoryEntry {
+    const current = tracks.map(track => this.toRosterEntry(track));
+    const previous = this.history.playlists[playlistName];
+    
+    const diff = previous
+      ? this.diffRosters(previous.tracks, current)
+      : { added: [], removed: [], retitled: [] };
+    
+    const entry: RosterHistoryEntry = {
+      timestamp: new Date(),
+      trackCount: current.length,
+      initial: !previous,
+      changelog,
+      ...diff
+    };
+    
+    const lastEntry = previous && previous.entries[previous.entries.length - 1];
+    const changelogChanged = !!changelog && (!lastEntry || lastEntry.changelog !== changelog);
+    const hasChanges = diff.added.length > 0 || diff.removed.length > 0 || diff.retitled.length > 0;
+    
+    if (!previous) {
+      this.history.playlists[playlistName] = { lastSync: entry.timestamp, tracks: current, entries: [entry] };
+      this.logger.info(`Recorded initial roster for ${playlistName} (${current.length} tracks)`);
+    } else {
+      previous.lastSync = entry.timestamp;
+      previous.tracks = current;
+      
+      if (hasChanges || changelogChanged) {
+        previous.entries.push(entry);
+      }
+      
+      this.logger.info(
+        `Roster changes for ${playlistName}: ${diff.added.length} added, ` +
+        `${diff.removed.length} removed, ${diff.retitled.length} retitled`
+      );
+    }
+    
+    this.saveHistory();
+    return entry;
+  }
+
+  /**
+   * Get recorded history entries for a playlist, most recent last
+   */
+  public getEntries(playlistName: string): RosterHistoryEntry[] {
+    const playlist = this.history.playlists[playlistName];
+    return playlist ? playlist.entries : [];
+  }
+
+  public getLastSync(playlistName: string): Date | undefined {
+    const playlist = this.history.playlists[playlistName];
+    return playlist ? playlist.lastSync : undefined;
+  }
+
+  public getPlaylistNames(): string[] {
+    return Object.keys(this.history.playlists);
+  }
+
+  /**
+   * Compare two rosters by track ID
+   */
+  private diffRosters(before: RosterEntry[], after: RosterEntry[]): RosterDiff {
+    const beforeById = new Map(before.map(entry => [entry.id, entry]));
+    const afterById = new Map(after.map(entry => [entry.id, entry]));
+    
+    const added = after.filter(entry => !beforeById.has(entry.id));
+    const removed = before.filter(entry => !afterById.has(entry.id));
+    
+    const retitled: RosterDiff['retitled'] = [];
+    after.forEach(entry => {
+      const old = beforeById.get(entry.id);
+      if (old && (old.title !== entry.title || old.game !== entry.game)) {
+        retitled.push({ before: old, after: entry });
+      }
+    });
+    
+    return { added, removed, retitled };
+  }
+
+  private toRosterEntry(track: Track): RosterEntry {
+    const { game, title } = getRosterNames(track);
+    return { id: track.id, title, game };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sanitize } from 'sanitize-filename-ts';
+import { AppConfig, MetadataOverride } from '../config/config';
+import builtInOverrides from '../config/metadata-overrides.json';
+import { Track } from '../models/track.model';
+import { normalizeDownloadUrl } from '../utils/track-reference';
+import { Logger } from './logger.service';
+
+interface CompiledOverride {
+  override: MetadataOverride;
+  pattern?: RegExp;
+}
+
+/**
+ * Applies corrections of roster data (game, title, artist, album, year,
+ * file name) so they survive every re-sync: the built-in ones shipped with
+ * the tool, then the user's from the config and the local overrides file
+ */
+export class MetadataOverrides {
+  private overrides: CompiledOverride[] = [];
+  
+  constructor(private logger: Logger, config: AppConfig) {
+    const filePath = path.resolve(config.baseDir, config.overridesFile);
+    
+    [
+      ...(builtInOverrides as MetadataOverride[]),
+      ...(config.metadataOverrides || []),
+      ...this.loadOverridesFile(filePath)
+    ].forEach(override => {
+      try {
+        this.overrides.push({
+          override,
+          pattern: override.pattern ? new RegExp(override.pattern) : undefined
+        });
+      } catch (error: any) {
+        this.logger.error(`Ignoring metadata override with invalid pattern "${override.pattern}": ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Apply matching overrides to converted tracks. Later entries win, so the
+   * overrides file takes precedence over the config.
+   */
+  public apply(tracks: Track[]): Track[] {
+    if (this.overrides.length === 0) return tracks;
+    
+    let overriddenCount = 0;
+    tracks.forEach(track => {
+      const label = getRosterLabel(track);
+      let overridden = false;
+      
+      this.overrides.forEach(({ override, pattern }) => {
+        const captures = this.match(track, label, override, pattern);
+        if (captures) {
+          this.applyOverride(track, override, captures);
+          overridden = true;
+        }
+      });
+      
+      if (overridden) overriddenCount++;
+    });
+    
+    if (overriddenCount > 0) {
+      this.logger.info(`Applied metadata overrides to ${overriddenCount} tracks`);
+    }
+    
+    return tracks;
+  }
+
+  /**
+   * Check an override against a track, returning the pattern's captures
+   * (empty for ID and URL matches) or null when it does not apply
+   */
+  private match(track: Track, label: string, override: MetadataOverride, pattern?: RegExp): string[] | null {
+    if (override.id !== undefined && override.id !== track.id) return null;
+    if (override.url !== undefined && normalizeDownloadUrl(override.url) !== normalizeDownloadUrl(track.downloadUrl)) return null;
+    if (override.id === undefined && override.url === undefined && !pattern) return null;
+    
+    if (pattern) {
+      const match = label.match(pattern);
+      return match ? Array.from(match) : null;
+    }
+    
+    return [];
+  }
+
+  private applyOverride(track: Track, override: MetadataOverride, captures: string[]): void {
+    const value = (template: string) => template.replace(/\$(\d)/g, (_, index: string) => captures[parseInt(index, 10)] || '');
+    
+    if (override.game !== undefined) {
+      track.game = value(override.game);
+      track.metadata.album = track.game;
+    }
+    if (override.title !== undefined) {
+      track.title = value(override.title);
+      track.metadata.title = track.title;
+    }
+    if (override.artist !== undefined) {
+      // XML rosters have no separate composer, it mirrors the parsed artist
+      if (track.metadata.composer === track.metadata.artist) {
+        track.metadata.composer = value(override.artist) || undefined;
+      }
+      track.artist = value(override.artist);
+      track.metadata.artist = track.artist;
+    }
+    if (override.album !== undefined) {
+      track.metadata.album = value(override.album);
+    }
+    if (override.year !== undefined) {
+      track.metadata.year = value(override.year);
+    }
+    if (override.fileName !== undefined) {
+      track.fileName = `${sanitize(value(override.fileName))}.${track.fileExt}`;
+    } else if (override.game !== undefined || override.title !== undefined) {
+      // Name the file after the corrected data, like the converters do
+      track.fileName = `${sanitize(`${track.game || track.metadata.album} - ${track.title}`)}.${track.fileExt}`;
+    }
+    
+    this.logger.debug(`Applied metadata override to ${track.id}: ${track.fileName}`);
+  }
+
+  private loadOverridesFile(filePath: string): MetadataOverride[] {
+    if (!fs.existsSync(filePath)) return [];
+    
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const overrides: MetadataOverride[] = Array.isArray(data) ? data : data.overrides || [];
+      this.logger.info(`Loaded ${overrides.length} metadata overrides from ${filePath}`);
+      return overrides;
+    } catch (error: any) {
+      this.logger.error(`Error loading metadata overrides from ${filePath}: ${error.message}`);
+      return [];
+    }
+  }
+}
+
+/**
+ * Label of a track as written in its roster: "Creator - Title" for XML
+ * rosters, "Game - Title" for JSON rosters. Built from the raw roster entry,
+ * so tracks whose game and title were already overridden (e.g. from state)
+ * still match the same patterns.
+ */
+function getRosterLabel(track: Track): string {
+  const { game, title } = getRosterNames(track);
+  return `${game} - ${title}`;
+}
+
+/**
+ * Game (the creator of XML rosters) and title of a track as written in its
+ * roster entry, before any metadata override
+ */
+export function getRosterNames(track: Track): { game?: string, title: string } {
+  const source = track.sourceTrack || {};
+  if (Array.isArray(source.creator) && Array.isArray(source.title)) {
+    return { game: source.creator[0], title: source.title[0] };
+  }
+  if (typeof source.game === 'string' && typeof source.title === 'string') {
+    // Tracks of the Source view carry the roster entry of their original
+    const isSourceVersion = source.s_id !== undefined && source.s_id !== source.id && track.id.endsWith(`-${source.s_id}`);
+    return { game: source.game, title: isSourceVersion ? source.s_title : source.title };
+  }
+  return { game: track.game, title: track.title };
+}
\ No newline at end of file
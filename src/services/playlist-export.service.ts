@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as parser from 'xml2js';
+import { Track, TrackStatus } from '../models/track.model';
+import { indexTracksByUrl, isReferenceTrack, normalizeDownloadUrl } from '../utils/track-reference';
+import { Logger } from './logger.service';
+import { StateManager } from './state.service';
+
+export interface PlaylistExportResult {
+  playlistName: string;
+  m3u8Path: string;
+  xspfPath: string;
+  exportedCount: number;
+  missingCount: number;   // Roster tracks without a file on disk
+}
+
+interface ExportEntry {
+  track: Track;
+  filePath: string;       // File to point at (the VIP copy for reference tracks)
+}
+
+/**
+ * Writes .m3u8 and .xspf playlist files in upstream roster order,
+ * using paths relative to the output directory
+ */
+export class PlaylistExporter {
+  constructor(
+    private logger: Logger,
+    private stateManager: StateManager,
+    private outputDir: string
+  ) {}
+
+  /**
+   * Export the given playlists (default: all playlists in state)
+   */
+  public async exportPlaylists(playlistNames?: string[]): Promise<PlaylistExportResult[]> {
+    const names = playlistNames && playlistNames.length > 0
+      ? playlistNames
+      : this.stateManager.getAllPlaylists().map(playlist => playlist.name);
+    
+    // Files referenced across playlists are looked up by download URL
+    const urlIndex = indexTracksByUrl(
+      this.stateManager.getAllPlaylists()
+        .flatMap(playlist => this.stateManager.getPlaylistState(playlist.name).tracks)
+    );
+    
+    const results: PlaylistExportResult[] = [];
+    for (const name of names) {
+      if (!this.stateManager.getPlaylistState(name)) {
+        this.logger.warn(`Playlist ${name} not found in state, skipping export`);
+        continue;
+      }
+      results.push(await this.exportPlaylist(name, urlIndex));
+    }
+    
+    return results;
+  }
+
+  /**
+   * Export a single playlist
+   */
+  private async exportPlaylist(playlistName: string, urlIndex: Map<string, Track>): Promise<PlaylistExportResult> {
+    const tracks = this.stateManager.getPlaylistState(playlistName).tracks
+      .filter(track => track.status !== TrackStatus.REMOVED)
+      .sort((a, b) => (a.rosterIndex ?? Number.MAX_SAFE_INTEGER) - (b.rosterIndex ?? Number.MAX_SAFE_INTEGER));
+    
+    const entries: ExportEntry[] = [];
+    let missingCount = 0;
+    
+    for (const track of tracks) {
+      const filePath = this.resolveExportFile(track, urlIndex);
+      if (filePath) {
+        entries.push({ track, filePath });
+      } else {
+        missingCount++;
+      }
+    }
+    
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    
+    const m3u8Path = path.join(this.outputDir, `${playlistName}.m3u8`);
+    const xspfPath = path.join(this.outputDir, `${playlistName}.xspf`);
+    
+    await fs.promises.writeFile(m3u8Path, this.buildM3u8(entries), 'utf8');
+    await fs.promises.writeFile(xspfPath, this.buildXspf(playlistName, entries), 'utf8');
+    
+    this.logger.info(
+      `Exported ${entries.length} tracks of ${playlistName} to ${path.basename(m3u8Path)} and ${path.basename(xspfPath)}` +
+      (missingCount > 0 ? ` (${missingCount} tracks not downloaded yet)` : '')
+    );
+    
+    return { playlistName, m3u8Path, xspfPath, exportedCount: entries.length, missingCount };
+  }
+
+  /**
+   * Find the file a track should point at. Tracks without their own copy that
+   * reference a VIP file point at the VIP copy instead.
+   */
+  private resolveExportFile(track: Track, urlIndex: Map<string, Track>): string | null {
+    if (fs.existsSync(track.filePath)) {
+      return track.filePath;
+    }
+    
+    if (isReferenceTrack(track)) {
+      const referenced = urlIndex.get(normalizeDownloadUrl(track.downloadUrl));
+      if (referenced && fs.existsSync(referenced.filePath)) {
+        return referenced.filePath;
+      }
+    }
+    
+    return null;
+  }
+
+  private buildM3u8(entries: ExportEntry[]): string {
+    const lines = ['#EXTM3U'];
+    
+    entries.forEach(({ track, filePath }) => {
+      const { title, artist } = track.metadata;
+      lines.push(`#EXTINF:-1,${artist ? `${artist} - ${title}` : title}`);
+      lines.push(this.relativePath(filePath));
+    });
+    
+    return lines.join('\n') + '\n';
+  }
+
+  private buildXspf(playlistName: string, entries: ExportEntry[]): string {
+    const builder = new parser.Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } });
+    
+    return builder.buildObject({
+      playlist: {
+        $: { version: '1', xmlns: 'http://xspf.org/ns/0/' },
+        title: playlistName,
+        trackList: {
+          track: entries.map(({ track, filePath }, index) => ({
+            location: this.relativePath(filePath).split('/').map(encodeURIComponent).join('/'),
+            title: track.metadata.title,
+            ...(track.metadata.artist ? { creator: track.metadata.artist } : {}),
+            ...(track.metadata.album ? { album: track.metadata.album } : {}),
+            trackNum: index + 1
+          }))
+        }
+      }
+    });
+  }
+
+  /**
+   * Path relative to the output directory, with forward slashes
+   */
+  private relativePath(filePath: string): string {
+    return path.relative(this.outputDir, filePath).split(path.sep).join('/');
+  }
+}
\ No newline at end of file
@@ -2,93 +2,230 @@ import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { sanitize } from 'sanitize-filename-ts';
-import { v4 as uuidv4 } from 'uuid';
 import * as parser from 'xml2js';
-import { AppConfig } from '../config/config';
+import { AppConfig, PlaylistEntry, resolvePlaylistEntries } from '../config/config';
 import {
   NewPlaylistTrack,
   OldPlaylistTrack,
   PlaylistMetadata,
+  RosterData,
   Track,
   TrackStatus
 } from '../models/track.model';
 import { FileService } from './file.service';
 import { Logger } from './logger.service';
+import { MetadataOverrides } from './metadata-override.service';
+import { RosterArchive } from './roster-archive.service';
+import { FileLookup } from '../utils/file-lookup';
+import { renderPathTemplate } from '../utils/path-template';
+import { createStableTrackId } from '../utils/track-id';
+import { isReferenceTrack } from '../utils/track-reference';
+
+// Folder inside a playlist directory holding files of removed tracks
+export const ARCHIVE_DIR_NAME = '_archive';
+
+/**
+ * Location of a track's file inside its playlist's _archive folder. Files
+ * outside the playlist folder keep their path relative to the output directory.
+ */
+export function getArchivedFilePath(outputDir: string, playlistName: string, filePath: string): string {
+  const playlistDir = path.join(outputDir, playlistName);
+  const relativePath = path.relative(playlistDir, filePath);
+  
+  return path.join(
+    playlistDir,
+    ARCHIVE_DIR_NAME,
+    relativePath.startsWith('..') ? path.relative(outputDir, filePath) : relativePath
+  );
+}
+
+/**
+ * A roster converter registered for a playlist format
+ */
+export interface PlaylistProvider {
+  rosterType: 'json' | 'xml';  // How the roster is fetched and parsed
+  convert(playlistName: string, roster: RosterData): Track[];
+}
 
 export class PlaylistService {
+  private providers: Map<string, PlaylistProvider> = new Map();
+  private changelogs: Map<string, string> = new Map();
+  
   constructor(
     private logger: Logger,
     private config: AppConfig,
-    private fileService?: FileService
-  ) {}
+    private fileService?: FileService,
+    private rosterArchive?: RosterArchive,
+    private metadataOverrides?: MetadataOverrides
+  ) {
+    this.registerBuiltInProviders();
+  }
+
+  /**
+   * Register a provider for a playlist format, replacing any existing one
+   */
+  public registerProvider(format: string, provider: PlaylistProvider): void {
+    this.providers.set(format, provider);
+  }
+
+  /**
+   * Register converters for the formats of the built-in Aersia rosters
+   */
+  private registerBuiltInProviders(): void {
+    this.registerProvider('json', {
+      rosterType: 'json',
+      convert: (playlistName, roster) => this.convertVIPPlaylistTracks(
+        playlistName, roster.tracks as NewPlaylistTrack[], roster.metadata!
+      )
+    });
+    
+    this.registerProvider('source', {
+      rosterType: 'json',
+      convert: (playlistName, roster) => this.convertSourcePlaylistTracks(
+        playlistName, roster.tracks as NewPlaylistTrack[], roster.metadata!
+      )
+    });
+    
+    this.registerProvider('json-ref', {
+      rosterType: 'json',
+      convert: (playlistName, roster) => this.convertMellowExiledPlaylistTracks(
+        playlistName, roster.tracks as NewPlaylistTrack[], roster.metadata!
+      )
+    });
+    
+    this.registerProvider('xml', {
+      rosterType: 'xml',
+      convert: (playlistName, roster) => this.convertOldPlaylistTracks(
+        playlistName, roster.tracks as OldPlaylistTrack[]
+      )
+    });
+  }
 
   /**
-   * Get tracks from a new playlist (VIP, Source, Mellow, Exiled)
+   * Get tracks for a playlist using the provider registered for its format.
+   * The playlist's tracks from the previous run keep their file names when
+   * names collide.
    */
-  public async getNewPlaylistTracks(playlistName: string, url: string): Promise<Track[]> {
+  public async getPlaylistTracks(playlist: PlaylistEntry, previousTracks: Track[] = []): Promise<Track[]> {
+    const provider = this.providers.get(playlist.format);
+    if (!provider) {
+      throw new Error(`No playlist provider registered for format "${playlist.format}" (playlist ${playlist.name})`);
+    }
+    
     try {
-      this.logger.info(`Fetching playlist ${playlistName} from ${url}`);
-      const response = await axios.get(url);
+      const roster = await this.fetchRoster(playlist, provider.rosterType);
+      this.logger.info(`Found ${roster.tracks.length} tracks in ${playlist.name} playlist`);
       
-      const metadata: PlaylistMetadata = {
-        changelog: response.data.changelog,
-        url: response.data.url,
-        ext: response.data.ext,
-        new_id: response.data.new_id
-      };
-      
-      const tracks: NewPlaylistTrack[] = response.data.tracks;
-      this.logger.info(`Found ${tracks.length} tracks in ${playlistName} playlist`);
-      
-      // Convert to unified Track model based on playlist type
-      let convertedTracks: Track[];
+      // Keep the upstream changelog for the roster history
+      if (roster.metadata && roster.metadata.changelog) {
+        this.changelogs.set(playlist.name, roster.metadata.changelog);
+      }
       
-      if (playlistName === 'VIP') {
-        convertedTracks = this.convertVIPPlaylistTracks(playlistName, tracks, metadata);
-      } else if (playlistName === 'Source') {
-        convertedTracks = this.convertSourcePlaylistTracks(tracks, metadata);
-      } else {
-        convertedTracks = this.convertMellowExiledPlaylistTracks(playlistName, tracks, metadata);
+      // Convert to unified Track model and apply user corrections before tagging and naming
+      let convertedTracks = provider.convert(playlist.name, roster);
+      if (this.metadataOverrides) {
+        convertedTracks = this.metadataOverrides.apply(convertedTracks);
       }
       
+      // Place files according to the file name template
+      convertedTracks = this.resolveFileNameCollisions(
+        playlist.name,
+        this.applyFileNameTemplate(this.applyPlaylistMetadata(convertedTracks)),
+        previousTracks
+      );
+      
       // Perform additional verification of files to ensure all existing files are detected
       // This is especially important for Mellow playlist which has had ID issues
-      return await this.verifyPlaylistFiles(playlistName, convertedTracks);
+      return await this.verifyPlaylistFiles(playlist.name, convertedTracks);
       
     } catch (error: any) {
-      this.logger.error(`Error fetching new playlist ${playlistName}: ${error.message}`);
+      this.logger.error(`Error fetching playlist ${playlist.name}: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * Get tracks from an old playlist format (WAP, CPP)
+   * Get the upstream changelog of the last fetched roster for a playlist
    */
-  public async getOldPlaylistTracks(playlistName: string, url: string): Promise<Track[]> {
-    try {
-      this.logger.info(`Fetching playlist ${playlistName} from ${url}`);
-      const response = await axios.get(url);
-      const xml: string = response.data;
+  public getChangelog(playlistName: string): string | undefined {
+    return this.changelogs.get(playlistName);
+  }
+
+  /**
+   * Fetch a roster and parse it into its raw tracks and metadata.
+   * Rosters come from the network (and are archived as snapshots) unless
+   * config.rosterFrom points at a saved snapshot or a local roster file.
+   */
+  private async fetchRoster(playlist: PlaylistEntry, rosterType: 'json' | 'xml'): Promise<RosterData> {
+    const { name: playlistName, url } = playlist;
+    let body: string;
+    
+    if (this.config.rosterFrom) {
+      const snapshotPath = this.resolveRosterSnapshot(playlist, this.config.rosterFrom);
       
-      // Parse XML
-      const result = await this.parseXml(xml);
-      if (!result.playlist || !result.playlist.trackList || !result.playlist.trackList[0].track) {
-        throw new Error(`Invalid playlist format for ${playlistName}`);
+      if (!snapshotPath) {
+        throw new Error(`No roster snapshot "${this.config.rosterFrom}" found for ${playlistName}`);
       }
       
-      const tracks: OldPlaylistTrack[] = result.playlist.trackList[0].track;
-      this.logger.info(`Found ${tracks.length} tracks in ${playlistName} playlist`);
+      this.logger.info(`Reading playlist ${playlistName} from ${snapshotPath}`);
+      body = await fs.promises.readFile(snapshotPath, 'utf8');
+    } else {
+      this.logger.info(`Fetching playlist ${playlistName} from ${url}`);
+      const response = await axios.get(url, { responseType: 'text' });
+      body = response.data;
       
-      // Convert to unified Track model
-      const convertedTracks = this.convertOldPlaylistTracks(playlistName, tracks);
+      if (this.rosterArchive) {
+        await this.rosterArchive.save(playlistName, body, rosterType);
+      }
+    }
+    
+    return this.parseRoster(playlistName, body, rosterType);
+  }
+
+  /**
+   * Find the roster snapshot for a playlist; derived views fall back to
+   * the snapshots of the playlist they are built from
+   */
+  private resolveRosterSnapshot(playlist: PlaylistEntry, ref: string): string | null {
+    if (!this.rosterArchive) {
+      return RosterArchive.isRosterFile(ref) ? ref : null;
+    }
+    
+    const snapshotPath = this.rosterArchive.resolve(playlist.name, ref);
+    if (!snapshotPath && playlist.source) {
+      return this.rosterArchive.resolve(playlist.source, ref);
+    }
+    
+    return snapshotPath;
+  }
+
+  /**
+   * Parse a raw roster body
+   */
+  private async parseRoster(playlistName: string, body: string, rosterType: 'json' | 'xml'): Promise<RosterData> {
+    if (rosterType === 'json') {
+      const data = JSON.parse(body);
+      const metadata: PlaylistMetadata = {
+        changelog: data.changelog,
+        url: data.url,
+        ext: data.ext,
+        new_id: data.new_id
+      };
       
-      // Perform additional verification
-      return await this.verifyPlaylistFiles(playlistName, convertedTracks);
+      if (!Array.isArray(data.tracks)) {
+        throw new Error(`Invalid playlist format for ${playlistName}`);
+      }
       
-    } catch (error: any) {
-      this.logger.error(`Error fetching old playlist ${playlistName}: ${error.message}`);
-      throw error;
+      return { metadata, tracks: data.tracks };
     }
+    
+    // Parse XML
+    const result = await this.parseXml(body);
+    if (!result.playlist || !result.playlist.trackList || !result.playlist.trackList[0].track) {
+      throw new Error(`Invalid playlist format for ${playlistName}`);
+    }
+    
+    return { tracks: result.playlist.trackList[0].track };
   }
   
   /**
@@ -98,22 +235,8 @@ export class PlaylistService {
   public async verifyPlaylistFiles(playlistName: string, tracks: Track[]): Promise<Track[]> {
     this.logger.info(`Verifying files for playlist ${playlistName}...`);
     
-    // Create a map of filenames to track status for quick lookup
-    const fileExistenceMap = new Map<string, boolean>();
-    
-    // First scan the directory to get all existing files
-    const playlistDir = path.join(this.config.outputDir, playlistName);
-    try {
-      if (fs.existsSync(playlistDir)) {
-        const files = await fs.promises.readdir(playlistDir);
-        files.forEach(file => {
-          fileExistenceMap.set(file.toLowerCase(), true);
-        });
-        this.logger.info(`Found ${files.length} files in ${playlistName} directory`);
-      }
-    } catch (error) {
-      this.logger.error(`Error reading playlist directory ${playlistDir}: ${error}`);
-    }
+    // Case-insensitive lookups, the same as the state's check of pending tracks
+    const fileLookup = new FileLookup((dir, error) => this.logger.error(`Error reading directory ${dir}: ${error}`));
     
     // Now verify each track against the filesystem
     let completedCount = 0;
@@ -123,19 +246,20 @@ export class PlaylistService {
     for (const track of tracks) {
       // Fix malformed IDs if needed
       if (track.id === `${playlistName}-undefined`) {
-        track.id = `${playlistName}-${Math.random().toString(36).substring(2, 10)}`;
+        track.id = createStableTrackId(playlistName, track.downloadUrl);
         this.logger.debug(`Fixed malformed track ID for ${track.fileName}`);
       }
       
-      const fileName = path.basename(track.filePath);
-      if (fileExistenceMap.has(fileName.toLowerCase())) {
+      const exists = fileLookup.exists(track.filePath) || await this.restoreArchivedFile(playlistName, track);
+      
+      if (exists) {
         if (track.status !== TrackStatus.COMPLETED) {
           track.status = TrackStatus.COMPLETED;
           track.bytesDownloaded = 1; // Placeholder
           this.logger.debug(`Updated track status to COMPLETED (file exists): ${track.fileName}`);
         }
         completedCount++;
-      } else if (track.sourceTrack && track.sourceTrack.file && track.sourceTrack.file.includes('../')) {
+      } else if (isReferenceTrack(track)) {
         // This is a reference to a VIP track
         track.status = TrackStatus.SKIPPED;
         this.logger.debug(`Set track status to SKIPPED (VIP reference): ${track.fileName}`);
@@ -150,11 +274,213 @@ export class PlaylistService {
       }
     }
     
+    this.logger.info(`Found files in ${fileLookup.getDirectoryCount()} directories for ${playlistName}`);
     this.logger.info(`Verified ${tracks.length} tracks in ${playlistName}: ${completedCount} completed, ${skippedCount} skipped, ${pendingCount} pending`);
     
     return tracks;
   }
 
+  /**
+   * Apply the configured removed track policy to tracks dropped from the roster:
+   * keep their files, move them to the playlist's _archive folder, or delete them
+   */
+  public async applyRemovedTrackPolicy(playlistName: string, removedTracks: Track[]): Promise<void> {
+    const policy = this.config.removedTrackPolicy;
+    if (policy === 'keep' || removedTracks.length === 0) {
+      return;
+    }
+    
+    if (!this.fileService) {
+      throw new Error('FileService is required for handling removed tracks');
+    }
+    
+    let handledCount = 0;
+    for (const track of removedTracks) {
+      if (!this.fileExistsSync(track.filePath)) continue;
+      
+      try {
+        if (policy === 'archive') {
+          const archivePath = this.getArchivePath(playlistName, track.filePath);
+          await this.fileService.ensureDirectory(path.dirname(archivePath));
+          await this.fileService.moveFile(track.filePath, archivePath);
+          this.logger.info(`Archived removed track: ${track.fileName}`);
+        } else if (policy === 'delete') {
+          await this.fileService.deleteFile(track.filePath);
+          this.logger.info(`Deleted removed track: ${track.fileName}`);
+        }
+        handledCount++;
+      } catch (error: any) {
+        this.logger.error(`Error applying ${policy} policy to ${track.fileName}: ${error.message}`);
+      }
+    }
+    
+    if (handledCount > 0) {
+      this.logger.info(`Applied ${policy} policy to ${handledCount} removed tracks in ${playlistName}`);
+    }
+  }
+
+  /**
+   * Move a previously archived file back into place when its track returns to the roster
+   */
+  private async restoreArchivedFile(playlistName: string, track: Track): Promise<boolean> {
+    const archivePath = this.getArchivePath(playlistName, track.filePath);
+    if (!this.fileService || !this.fileExistsSync(archivePath)) {
+      return false;
+    }
+    
+    try {
+      await this.fileService.ensureDirectory(path.dirname(track.filePath));
+      await this.fileService.moveFile(archivePath, track.filePath);
+      this.logger.info(`Restored archived track: ${track.fileName}`);
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Error restoring archived track ${track.fileName}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Location of a track's file inside the playlist's _archive folder
+   */
+  private getArchivePath(playlistName: string, filePath: string): string {
+    return getArchivedFilePath(this.config.outputDir, playlistName, filePath);
+  }
+
+  /**
+   * Add the tags every converter shares: roster position, source URL and playlist
+   */
+  private applyPlaylistMetadata(tracks: Track[]): Track[] {
+    tracks.forEach(track => {
+      track.metadata = {
+        ...track.metadata,
+        albumArtist: track.metadata.albumArtist || 'Various Artists',
+        trackNumber: track.rosterIndex !== undefined ? track.rosterIndex + 1 : undefined,
+        genre: track.metadata.genre || 'Video Game Music',
+        comment: track.downloadUrl,
+        grouping: track.playlistName,
+        compilation: true
+      };
+    });
+    
+    return tracks;
+  }
+
+  /**
+   * Rewrite file names and paths of converted tracks using the configured template.
+   * Converters produce the classic "Game - Title" name, available as {name}.
+   */
+  private applyFileNameTemplate(tracks: Track[]): Track[] {
+    tracks.forEach(track => {
+      const defaultName = track.fileName.substring(0, track.fileName.length - track.fileExt.length - 1);
+      const relativePath = renderPathTemplate(this.config.fileNameTemplate, { track, defaultName });
+      
+      track.filePath = path.join(this.config.outputDir, `${relativePath}.${track.fileExt}`);
+      track.fileName = path.basename(track.filePath);
+    });
+    
+    return tracks;
+  }
+
+  /**
+   * Give tracks that map to the same file distinct names. Tracks keep the
+   * name they had in the previous run, so a newly added track never takes
+   * the file of an existing one. Of the others, the track with the smallest
+   * ID gets the plain name if it is free, the rest their arranger or, when
+   * that does not tell them apart, their track ID appended.
+   */
+  private resolveFileNameCollisions(playlistName: string, tracks: Track[], previousTracks: Track[]): Track[] {
+    const previousPaths = new Map(previousTracks.map(track => [track.id, track.filePath.toLowerCase()]));
+    const tracksByPath = new Map<string, Track[]>();
+    tracks.forEach(track => {
+      const key = track.filePath.toLowerCase();
+      tracksByPath.set(key, [...(tracksByPath.get(key) || []), track]);
+    });
+    
+    const takenPaths = new Set(tracksByPath.keys());
+    let collisionCount = 0;
+    
+    for (const collidingTracks of tracksByPath.values()) {
+      if (collidingTracks.length < 2) continue;
+      
+      collidingTracks.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+      this.logger.warn(
+        `${collidingTracks.length} tracks in ${playlistName} map to ${collidingTracks[0].fileName}: ` +
+        collidingTracks.map(track => track.id).join(', ')
+      );
+      
+      const plainPath = collidingTracks[0].filePath.toLowerCase();
+      let plainTaken = false;
+      const assignedPaths = new Map<Track, string>();
+      
+      const getSuffixedPaths = (track: Track): string[] => {
+        const arranger = (track.metadata.arranger || '').trim();
+        return [
+          ...(arranger ? [this.withFileNameSuffix(track, `(${arranger})`)] : []),
+          this.withFileNameSuffix(track, `[${track.id}]`)
+        ];
+      };
+      
+      // Tracks of the previous run keep their names
+      collidingTracks.forEach(track => {
+        const previousPath = previousPaths.get(track.id);
+        if (!previousPath) return;
+        
+        if (previousPath === plainPath && !plainTaken) {
+          plainTaken = true;
+          assignedPaths.set(track, track.filePath);
+          return;
+        }
+        
+        const suffixedPath = getSuffixedPaths(track)
+          .find(filePath => filePath.toLowerCase() === previousPath && !takenPaths.has(previousPath));
+        if (suffixedPath) {
+          takenPaths.add(previousPath);
+          assignedPaths.set(track, suffixedPath);
+        }
+      });
+      
+      // New tracks (and those whose name changed) get the first free name
+      collidingTracks.forEach(track => {
+        if (assignedPaths.has(track)) return;
+        
+        if (!plainTaken) {
+          plainTaken = true;
+          assignedPaths.set(track, track.filePath);
+          return;
+        }
+        
+        const filePath = getSuffixedPaths(track).find(suffixed => !takenPaths.has(suffixed.toLowerCase()))
+          || this.withFileNameSuffix(track, `[${track.id}]`);
+        takenPaths.add(filePath.toLowerCase());
+        assignedPaths.set(track, filePath);
+      });
+      
+      assignedPaths.forEach((filePath, track) => {
+        if (filePath === track.filePath) return;
+        
+        track.filePath = filePath;
+        track.fileName = path.basename(filePath);
+        this.logger.debug(`Renamed colliding track ${track.id} to ${track.fileName}`);
+      });
+      
+      collisionCount += collidingTracks.length - 1;
+    }
+    
+    if (collisionCount > 0) {
+      this.logger.warn(`Gave ${collisionCount} tracks in ${playlistName} a distinct file name to avoid overwriting`);
+    }
+    
+    return tracks;
+  }
+
+  /**
+   * File path of a track with a suffix added to its file name
+   */
+  private withFileNameSuffix(track: Track, suffix: string): string {
+    const baseName = path.basename(track.filePath, `.${track.fileExt}`);
+    return path.join(path.dirname(track.filePath), `${sanitize(`${baseName} ${suffix}`)}.${track.fileExt}`);
+  }
+
   /**
    * Parse XML using xml2js
    */
@@ -182,7 +508,7 @@ export class PlaylistService {
     const result: Track[] = [];
     
     // Only process VIP tracks, not Source tracks
-    tracks.forEach(track => {
+    tracks.forEach((track, rosterIndex) => {
       const id = `${playlistName}-${track.id}`;
       const downloadUrl = `${metadata.url}${track.file}.${metadata.ext}`;
       const fileName = sanitize(`${track.game} - ${track.title}`);
@@ -207,11 +533,14 @@ export class PlaylistService {
         metadata: {
           title: track.title,
           artist: track.comp,
-          album: track.game
+          album: track.game,
+          composer: track.comp,
+          arranger: track.arr || undefined
         },
         status: trackStatus,
         bytesDownloaded: trackStatus === TrackStatus.COMPLETED ? 1 : 0, // Just a placeholder
         retryCount: 0,
+        rosterIndex,
         sourceTrack: track
       });
     });
@@ -222,31 +551,31 @@ export class PlaylistService {
     const completed = result.filter(t => t.status === TrackStatus.COMPLETED).length;
     const pending = result.filter(t => t.status === TrackStatus.PENDING).length;
     
-    this.logger.info(`VIP Track status: ${completed} completed, ${pending} pending`);
+    this.logger.info(`${playlistName} Track status: ${completed} completed, ${pending} pending`);
     
     return result;
   }
 
   /**
    * Convert Source playlist tracks to unified format
-   * Only processes Source tracks from the VIP playlist
+   * Only processes tracks of the source roster that have a source version
    */
   private convertSourcePlaylistTracks(
+    playlistName: string,
     tracks: NewPlaylistTrack[], 
     metadata: PlaylistMetadata
   ): Track[] {
     const result: Track[] = [];
-    const playlistName = 'Source';
     
     // Only process tracks with source versions
-    tracks.forEach(track => {
+    tracks.forEach((track, rosterIndex) => {
       if ('s_id' in track && track.s_id !== undefined && track.s_title && track.s_file) {
-        const sourceId = `Source-${track.s_id}`;
+        const sourceId = `${playlistName}-${track.s_id}`;
         const sourceDownloadUrl = `${metadata.url}source/${track.s_file}.${metadata.ext}`;
         const sourceFileName = sanitize(`${track.game} - ${track.s_title}`);
         const sourceFilePath = path.join(
           this.config.outputDir, 
-          'Source', 
+          playlistName, 
           `${sourceFileName}.${metadata.ext}`
         );
         
@@ -269,11 +598,14 @@ export class PlaylistService {
           metadata: {
             title: track.s_title,
             artist: track.comp,
-            album: track.game
+            album: track.game,
+            composer: track.comp,
+            arranger: track.arr || undefined
           },
           status: sourceTrackStatus,
           bytesDownloaded: sourceTrackStatus === TrackStatus.COMPLETED ? 1 : 0,
           retryCount: 0,
+          rosterIndex,
           sourceTrack: track
         });
       }
@@ -285,7 +617,7 @@ export class PlaylistService {
     const completed = result.filter(t => t.status === TrackStatus.COMPLETED).length;
     const pending = result.filter(t => t.status === TrackStatus.PENDING).length;
     
-    this.logger.info(`Source Track status: ${completed} completed, ${pending} pending`);
+    this.logger.info(`${playlistName} Track status: ${completed} completed, ${pending} pending`);
     
     return result;
   }
@@ -300,7 +632,7 @@ export class PlaylistService {
   ): Track[] {
     const result: Track[] = [];
     
-    tracks.forEach(track => {
+    tracks.forEach((track, rosterIndex) => {
       const id = `${playlistName}-${track.id}`;
       const downloadUrl = `${metadata.url}${track.file}.${metadata.ext}`;
       const fileName = sanitize(`${track.game} - ${track.title}`);
@@ -324,11 +656,14 @@ export class PlaylistService {
           metadata: {
             title: track.title,
             artist: track.comp,
-            album: track.game
+            album: track.game,
+            composer: track.comp,
+            arranger: track.arr || undefined
           },
           status: TrackStatus.SKIPPED,
           bytesDownloaded: 0,
           retryCount: 0,
+          rosterIndex,
           sourceTrack: track
         });
         return;
@@ -356,11 +691,14 @@ export class PlaylistService {
           metadata: {
             title: titleParts[1],
             artist: titleParts[0],
-            album: track.game
+            album: track.game,
+            composer: track.comp,
+            arranger: track.arr || undefined
           },
           status: trackStatus,
           bytesDownloaded: trackStatus === TrackStatus.COMPLETED ? 1 : 0,
           retryCount: 0,
+          rosterIndex,
           sourceTrack: track
         });
       } else {
@@ -377,11 +715,14 @@ export class PlaylistService {
           metadata: {
             title: track.title,
             artist: track.comp,
-            album: track.game
+            album: track.game,
+            composer: track.comp,
+            arranger: track.arr || undefined
           },
           status: trackStatus,
           bytesDownloaded: trackStatus === TrackStatus.COMPLETED ? 1 : 0,
           retryCount: 0,
+          rosterIndex,
           sourceTrack: track
         });
       }
@@ -408,51 +749,48 @@ export class PlaylistService {
   ): Track[] {
     const result: Track[] = [];
     
-    tracks.forEach(track => {
-      const id = uuidv4(); // Generate unique ID
+    tracks.forEach((track, rosterIndex) => {
       const downloadUrl = track.location[0];
       
-      // Handle different metadata formats
+      // Derive the ID from the track's location so it is stable across runs
+      const id = createStableTrackId(
+        playlistName,
+        downloadUrl || `${track.creator[0]} - ${track.title[0]}`
+      );
+      
+      // Handle different metadata formats (irregular entries are fixed by metadata overrides)
       let fileName: string;
       let title: string;
       let artist: string;
       let album: string;
       
-      if (track.creator[0] === "Independence Day") {
-        // Special case
-        fileName = sanitize(`${track.creator[0]} - ${track.title[0]}`);
+      const fullName = `${track.creator[0]} - ${track.title[0]}`;
+      const parts = fullName.split(' - ');
+      
+      if (parts.length === 2) {
+        // Simple case: Game - Title
+        fileName = sanitize(fullName);
+        title = parts[1];
+        artist = "";
+        album = parts[0];
+      } else if (parts.length === 3) {
+        // Game - Artist - Title
+        fileName = sanitize(`${parts[0]} - ${parts[2]}`);
+        title = parts[2];
+        artist = parts[1];
+        album = parts[0];
+      } else if (parts.length >= 4) {
+        // Complex case: Game - Series - Artist - Title
+        fileName = sanitize(`${parts[0]} - ${parts[3]}`);
+        title = parts[3];
+        artist = parts[2];
+        album = parts[1];
+      } else {
+        // Fallback
+        fileName = sanitize(fullName);
         title = track.title[0];
         artist = "";
         album = track.creator[0];
-      } else {
-        const fullName = `${track.creator[0]} - ${track.title[0]}`;
-        const parts = fullName.split(' - ');
-        
-        if (parts.length === 2) {
-          // Simple case: Game - Title
-          fileName = sanitize(fullName);
-          title = parts[1];
-          artist = "";
-          album = parts[0];
-        } else if (parts.length === 3) {
-          // Game - Artist - Title
-          fileName = sanitize(`${parts[0]} - ${parts[2]}`);
-          title = parts[2];
-          artist = parts[1];
-          album = parts[0];
-        } else if (parts.length >= 4) {
-          // Complex case: Game - Series - Artist - Title
-          fileName = sanitize(`${parts[0]} - ${parts[3]}`);
-          title = parts[3];
-          artist = parts[2];
-          album = parts[1];
-        } else {
-          // Fallback
-          fileName = sanitize(fullName);
-          title = track.title[0];
-          artist = "";
-          album = track.creator[0];
-        }
       }
       
       const filePath = path.join(this.config.outputDir, playlistName, `${fileName}.m4a`);
@@ -476,11 +814,13 @@ export class PlaylistService {
         metadata: {
           title,
           artist,
-          album
+          album,
+          composer: artist || undefined
         },
         status: trackStatus,
         bytesDownloaded: trackStatus === TrackStatus.COMPLETED ? 1 : 0,
         retryCount: 0,
+        rosterIndex,
         sourceTrack: track
       });
     });
@@ -525,60 +865,26 @@ export class PlaylistService {
   /**
    * Get all playlists to download based on config and filters
    */
-  public getPlaylistsToDownload(requestedPlaylists?: string[]): Array<[string, string]> {
-    const { newPlaylists, oldPlaylists } = this.getPlaylistsFromConfig();
-    
-    // Create properly ordered playlists
-    let allPlaylists: Array<[string, string]> = [];
-    
-    // First add VIP and Source properly
-    const vipPlaylist = newPlaylists.find(([name]) => name === 'VIP');
-    const hasVIP = !!vipPlaylist;
-    
-    // Add VIP first if available
-    if (hasVIP && vipPlaylist) {
-      allPlaylists.push(vipPlaylist);
-      
-      // Then add Source with the same URL as VIP
-      if (vipPlaylist[1]) {
-        allPlaylists.push(['Source', vipPlaylist[1]]);
+  public getPlaylistsToDownload(requestedPlaylists?: string[]): PlaylistEntry[] {
+    let allPlaylists = resolvePlaylistEntries(this.config);
+    
+    // Warn about playlists whose format has no registered provider
+    allPlaylists = allPlaylists.filter(playlist => {
+      if (!this.providers.has(playlist.format)) {
+        this.logger.warn(`Ignoring playlist ${playlist.name}: unknown format "${playlist.format}"`);
+        return false;
       }
-    }
-    
-    // Add other new playlists (Mellow, Exiled)
-    newPlaylists
-      .filter(([name]) => name !== 'VIP' && name !== 'Source')
-      .forEach(playlist => allPlaylists.push(playlist));
-    
-    // Add old playlists (WAP, CPP)
-    oldPlaylists.forEach(playlist => allPlaylists.push(playlist));
+      return true;
+    });
     
     // Filter by requested playlists if provided
     if (requestedPlaylists && requestedPlaylists.length > 0) {
       this.logger.info(`Filtering playlists to requested: ${requestedPlaylists.join(', ')}`);
-      allPlaylists = allPlaylists.filter(([name]) => 
-        requestedPlaylists.includes(name)
+      allPlaylists = allPlaylists.filter(playlist => 
+        requestedPlaylists.includes(playlist.name)
       );
     }
     
     return allPlaylists;
   }
-
-  /**
-   * Extract playlists from config
-   */
-  private getPlaylistsFromConfig(): { 
-    newPlaylists: Array<[string, string]>; 
-    oldPlaylists: Array<[string, string]>;
-  } {
-    const newPlaylists = Object.entries(this.config.playlists)
-      .filter(([name]) => ['VIP', 'Mellow', 'Exiled'].includes(name))
-      .filter(([_, url]) => url !== '');
-    
-    const oldPlaylists = Object.entries(this.config.playlists)
-      .filter(([name]) => ['WAP', 'CPP'].includes(name))
-      .filter(([_, url]) => url !== '');
-    
-    return { newPlaylists, oldPlaylists };
-  }
 }
\ No newline at end of file
@@ -208,10 +208,10 @@ export class ProgressTracker {
       lines.push(`  Progress: ${progressBar} ${completionPercentage}%`);
     }
     
-    // Active downloads with more details
+    // Active downloads with more details (of all playlists once every playlist is queued)
     const activeDownloads = currentPlaylist 
       ? this.downloadManager.getActiveDownloadsForPlaylist(currentPlaylist)
-      : [];
+      : this.downloadManager.getActiveDownloads();
       
     if (activeDownloads.length > 0) {
       lines.push('\nActive Downloads:');
@@ -220,7 +220,7 @@ export class ProgressTracker {
         const { track, progress } = download;
         const progressBar = this.createProgressBar(progress.percentage);
         const speedInfo = this.calculateSpeed(track);
-        const fileInfo = truncate(track.fileName, 40).padEnd(40);
+        const fileInfo = truncate(currentPlaylist ? track.fileName : `[${track.playlistName}] ${track.fileName}`, 40).padEnd(40);
         
         lines.push(`  ${fileInfo} ${progressBar} ${progress.percentage}% ${formatSize(progress.bytesDownloaded)}/${formatSize(progress.totalBytes)} ${speedInfo}`);
       });
@@ -241,7 +241,10 @@ export class ProgressTracker {
     }
     
     // Queue status
-    lines.push(`\nQueue: ${stats.queued} tracks${stats.paused ? ' (PAUSED)' : ''}`);
+    lines.push(
+      `\nQueue: ${stats.queued} tracks${stats.retrying > 0 ? `, ${stats.retrying} waiting to retry` : ''}${stats.paused ? ' (PAUSED)' : ''} | ` +
+      `Concurrency: ${stats.active}/${stats.concurrency}${stats.adaptive ? ' (adaptive)' : ''}`
+    );
     
     // Print output
     process.stdout.write(lines.join('\n') + '\n');
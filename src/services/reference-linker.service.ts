@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReferenceTrackMode } from '../config/config';
+import { Track, TrackStatus } from '../models/track.model';
+import { indexTracksByUrl, isReferenceTrack, normalizeDownloadUrl } from '../utils/track-reference';
+import { FileService } from './file.service';
+import { Logger } from './logger.service';
+import { StateManager } from './state.service';
+
+/**
+ * Materializes tracks that reference another roster's file (Mellow/Exiled
+ * tracks pointing at VIP files) as hardlinks, symlinks or copies. Links whose
+ * referenced file is not downloaded yet are created once it completes.
+ */
+export class ReferenceLinker {
+  private waiting: Map<string, Track[]> = new Map();
+  private linking: Set<Promise<void>> = new Set();
+  
+  constructor(
+    private logger: Logger,
+    private stateManager: StateManager,
+    private fileService: FileService,
+    private mode: ReferenceTrackMode
+  ) {}
+
+  /**
+   * Link all reference tracks of a playlist whose referenced file is available,
+   * and remember the others until their referenced file is downloaded
+   */
+  public async linkPlaylist(playlistName: string): Promise<void> {
+    if (this.mode === 'skip') return;
+    
+    const playlist = this.stateManager.getPlaylistState(playlistName);
+    if (!playlist) return;
+    
+    const referenceTracks = playlist.tracks.filter(track =>
+      isReferenceTrack(track) && track.status === TrackStatus.SKIPPED && this.stateManager.isTrackSelected(track)
+    );
+    if (referenceTracks.length === 0) return;
+    
+    const urlIndex = indexTracksByUrl(
+      this.stateManager.getAllPlaylists()
+        .flatMap(p => this.stateManager.getPlaylistState(p.name).tracks)
+    );
+    
+    let linkedCount = 0;
+    let waitingCount = 0;
+    
+    for (const track of referenceTracks) {
+      const url = normalizeDownloadUrl(track.downloadUrl);
+      const referenced = urlIndex.get(url);
+      
+      if (referenced && fs.existsSync(referenced.filePath)) {
+        if (await this.link(track, referenced)) {
+          linkedCount++;
+        }
+      } else {
+        const waitingTracks = this.waiting.get(url) || [];
+        if (!waitingTracks.some(t => t.id === track.id)) {
+          this.waiting.set(url, [...waitingTracks, track]);
+        }
+        waitingCount++;
+      }
+    }
+    
+    this.logger.info(
+      `Linked ${linkedCount} reference tracks in ${playlistName} (${this.mode})` +
+      (waitingCount > 0 ? `, ${waitingCount} waiting for their referenced file` : '')
+    );
+  }
+
+  /**
+   * Create pending links once a referenced track has been downloaded.
+   * The links are created in the background, see drain().
+   */
+  public handleTrackComplete(track: Track): Promise<void> {
+    const linking: Promise<void> = this.linkWaitingTracks(track)
+      .finally(() => this.linking.delete(linking));
+    this.linking.add(linking);
+    return linking;
+  }
+
+  /**
+   * Wait for the links started by handleTrackComplete, including those
+   * started while waiting
+   */
+  public async drain(): Promise<void> {
+    while (this.linking.size > 0) {
+      await Promise.all(this.linking);
+    }
+  }
+
+  private async linkWaitingTracks(track: Track): Promise<void> {
+    const url = normalizeDownloadUrl(track.downloadUrl);
+    const waitingTracks = this.waiting.get(url);
+    if (!waitingTracks) return;
+    
+    this.waiting.delete(url);
+    for (const referenceTrack of waitingTracks) {
+      await this.link(referenceTrack, track);
+    }
+  }
+
+  /**
+   * Link a reference track to its referenced file and mark it completed
+   */
+  private async link(track: Track, referenced: Track): Promise<boolean> {
+    try {
+      // Templates without a playlist folder can place both tracks at the same path
+      if (path.resolve(track.filePath) === path.resolve(referenced.filePath)) {
+        this.stateManager.updateTrackStatus(track.playlistName, track.id, TrackStatus.COMPLETED, referenced.totalBytes || 1);
+        return true;
+      }
+      
+      await this.fileService.ensureDirectory(path.dirname(track.filePath));
+      await this.fileService.linkFile(referenced.filePath, track.filePath, this.mode as Exclude<ReferenceTrackMode, 'skip'>);
+      
+      // Copies are independent files and get their own playlist's tags;
+      // links share the referenced file and keep its tags
+      if (this.mode === 'copy') {
+        const tagError = await this.fileService.setMetadata(track.filePath, track.metadata);
+        this.stateManager.setTagError(track.playlistName, track.id, tagError);
+      }
+      
+      const fileInfo = await this.fileService.getFileInfo(track.filePath);
+      this.stateManager.setChecksum(track.playlistName, track.id, await this.fileService.calculateChecksum(track.filePath));
+      this.stateManager.updateTrackStatus(track.playlistName, track.id, TrackStatus.COMPLETED, fileInfo.size);
+      
+      this.logger.debug(`Linked ${track.fileName} -> ${referenced.filePath}`);
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Error linking ${track.fileName} to ${referenced.fileName}: ${error.message}`);
+      return false;
+    }
+  }
+}
\ No newline at end of file
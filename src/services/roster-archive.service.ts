@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger.service';
+
+export interface RosterSnapshot {
+  playlistName: string;
+  id: string;             // Timestamp-based snapshot identifier
+  filePath: string;
+}
+
+/**
+ * Stores every fetched roster as a timestamped snapshot next to the library,
+ * so past runs can be reproduced and rosters audited or replayed offline
+ */
+export class RosterArchive {
+  constructor(private archiveDir: string, private logger: Logger) {}
+
+  /**
+   * Store a raw roster body as a new snapshot
+   */
+  public async save(playlistName: string, body: string, ext: string): Promise<RosterSnapshot> {
+    const id = new Date().toISOString().replace(/:/g, '-');
+    const playlistDir = path.join(this.archiveDir, playlistName);
+    const filePath = path.join(playlistDir, `${id}.${ext}`);
+    
+    await fs.promises.mkdir(playlistDir, { recursive: true });
+    await fs.promises.writeFile(filePath, body, 'utf8');
+    
+    this.logger.debug(`Saved roster snapshot for ${playlistName}: ${filePath}`);
+    return { playlistName, id, filePath };
+  }
+
+  /**
+   * List snapshots of a playlist, oldest first
+   */
+  public list(playlistName: string): RosterSnapshot[] {
+    const playlistDir = path.join(this.archiveDir, playlistName);
+    if (!fs.existsSync(playlistDir)) {
+      return [];
+    }
+    
+    return fs.readdirSync(playlistDir)
+      .sort()
+      .map(file => ({
+        playlistName,
+        id: path.parse(file).name,
+        filePath: path.join(playlistDir, file)
+      }));
+  }
+
+  /**
+   * List the playlists that have at least one snapshot
+   */
+  public getPlaylistNames(): string[] {
+    if (!fs.existsSync(this.archiveDir)) {
+      return [];
+    }
+    
+    return fs.readdirSync(this.archiveDir)
+      .filter(name => fs.statSync(path.join(this.archiveDir, name)).isDirectory());
+  }
+
+  /**
+   * Resolve a snapshot reference for a playlist. The reference is either a path
+   * to a roster file, "latest", or a snapshot id / id prefix (e.g. "2024-05-01");
+   * the most recent matching snapshot wins.
+   */
+  public resolve(playlistName: string, ref: string): string | null {
+    if (RosterArchive.isRosterFile(ref)) {
+      return path.resolve(ref);
+    }
+    
+    const snapshots = this.list(playlistName);
+    const matching = ref === 'latest'
+      ? snapshots
+      : snapshots.filter(snapshot => snapshot.id.startsWith(ref));
+    
+    return matching.length > 0 ? matching[matching.length - 1].filePath : null;
+  }
+
+  /**
+   * Check whether a reference points at a roster file rather than a snapshot id
+   */
+  public static isRosterFile(ref: string): boolean {
+    try {
+      return fs.statSync(ref).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+}
\ No newline at end of file
@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Track, TrackStatus } from '../models/track.model';
+import { FileChecksum, RemoteFileInfo, Track, TrackStatus } from '../models/track.model';
+import { FileLookup } from '../utils/file-lookup';
+import { createStableTrackId, isUnstableTrackId } from '../utils/track-id';
+import { isReferenceTrack } from '../utils/track-reference';
 import { Logger } from './logger.service';
 
 export interface DownloadState {
@@ -34,6 +37,7 @@ export class StateManager {
   private stateFilePath: string;
   private autoSaveInterval: NodeJS.Timeout | null = null;
   private stateLogInterval: NodeJS.Timeout | null = null;
+  private trackFilter: ((track: Track) => boolean) | null = null;
   
   constructor(baseDir: string = './', private logger: Logger) {
     this.stateFilePath = path.join(baseDir, '.aersia-state.json');
@@ -67,9 +71,15 @@ export class StateManager {
           state.resumeData.timestamp = new Date(state.resumeData.timestamp);
         }
         
-        Object.values(state.playlists).forEach(playlist => {
+        Object.entries(state.playlists).forEach(([name, playlist]) => {
           playlist.lastUpdated = new Date(playlist.lastUpdated);
           
+          // Migrate random IDs from older versions to stable, URL-derived IDs
+          const migratedCount = this.migrateTrackIds(name, playlist.tracks);
+          if (migratedCount > 0) {
+            this.logger.info(`Migrated ${migratedCount} track IDs in ${name} playlist to stable IDs`);
+          }
+          
           // Initialize count fields if they don't exist
           if (playlist.totalCount === undefined) playlist.totalCount = playlist.tracks.length || 0;
           if (playlist.completedCount === undefined) playlist.completedCount = 0;
@@ -108,7 +118,30 @@ export class StateManager {
     }
   }
 
-  public initPlaylist(name: string, tracks: Track[]): void {
+  /**
+   * Restrict downloads to tracks matching a filter. Tracks filtered out are
+   * kept in state but not counted in the playlist statistics.
+   */
+  public setTrackFilter(filter: ((track: Track) => boolean) | null): void {
+    this.trackFilter = filter;
+    
+    Object.keys(this.state.playlists).forEach(name => this.recalculatePlaylistCounts(name));
+    this.recalculateProgress();
+  }
+
+  /**
+   * Check whether a track is selected by the current track filter
+   */
+  public isTrackSelected(track: Track): boolean {
+    return !this.trackFilter || this.trackFilter(track);
+  }
+
+  /**
+   * Merge the tracks of a roster into the playlist state. Tracks missing from
+   * the roster are marked as removed unless markRemoved is false (e.g. for a
+   * replayed roster snapshot, which does not know newer tracks).
+   */
+  public initPlaylist(name: string, tracks: Track[], markRemoved: boolean = true): void {
     if (!this.state.playlists[name]) {
       this.state.playlists[name] = {
         tracks: [],
@@ -127,21 +160,31 @@ export class StateManager {
     // Check and fix malformed IDs in existing state
     if (this.state.playlists[name].tracks.some(t => t.id === `${name}-undefined`)) {
       this.logger.warn(`Found tracks with malformed IDs in ${name} playlist, fixing...`);
-      this.state.playlists[name].tracks.forEach(track => {
-        if (track.id === `${name}-undefined`) {
-          // Generate a new unique ID for this track
-          track.id = `${name}-${Math.random().toString(36).substring(2, 10)}`;
-        }
-      });
+      this.migrateTrackIds(name, this.state.playlists[name].tracks);
     }
     
-    // Add new tracks that don't exist in the current state
-    // Use filePath for comparison since IDs might have been regenerated
-    const existingFilePaths = new Set(this.state.playlists[name].tracks.map(t => t.filePath));
+    // Match incoming tracks by ID, falling back to filePath for tracks whose
+    // stored ID could not be migrated (e.g. roster ID changes)
+    const existingById = new Map(this.state.playlists[name].tracks.map(t => [t.id, t]));
+    const existingByFilePath = new Map(this.state.playlists[name].tracks.map(t => [t.filePath, t]));
+    const incomingIds = new Set(tracks.map(t => t.id));
     let newTracksCount = 0;
     
     tracks.forEach(track => {
-      if (!existingFilePaths.has(track.filePath)) {
+      let existingTrack = existingById.get(track.id);
+      
+      if (!existingTrack) {
+        const byFilePath = existingByFilePath.get(track.filePath);
+        if (byFilePath && !incomingIds.has(byFilePath.id)) {
+          this.logger.debug(`Migrated track ID ${byFilePath.id} -> ${track.id}: ${track.fileName}`);
+          existingById.delete(byFilePath.id);
+          byFilePath.id = track.id;
+          existingById.set(track.id, byFilePath);
+          existingTrack = byFilePath;
+        }
+      }
+      
+      if (!existingTrack) {
         // Track is new, add it to state
         this.state.playlists[name].tracks.push({
           ...track,
@@ -151,9 +194,17 @@ export class StateManager {
         });
         newTracksCount++;
       } else {
+        // Keep roster-derived fields up to date
+        this.refreshRosterFields(existingTrack, track);
+        
         // Update existing track status based on input track if needed
-        const existingTrack = this.state.playlists[name].tracks.find(t => t.filePath === track.filePath);
-        if (existingTrack && track.status === TrackStatus.COMPLETED && existingTrack.status !== TrackStatus.COMPLETED) {
+        if (existingTrack.status === TrackStatus.REMOVED) {
+          // Track is back in the roster
+          existingTrack.status = track.status || TrackStatus.PENDING;
+          existingTrack.bytesDownloaded = track.bytesDownloaded || 0;
+          delete existingTrack.removedAt;
+          this.logger.info(`Track returned to playlist ${name}: ${track.fileName}`);
+        } else if (track.status === TrackStatus.COMPLETED && existingTrack.status !== TrackStatus.COMPLETED) {
           existingTrack.status = TrackStatus.COMPLETED;
           existingTrack.bytesDownloaded = 1; // Just a placeholder for completed
           this.logger.debug(`Updated track status to COMPLETED: ${track.fileName}`);
@@ -163,10 +214,23 @@ export class StateManager {
     
     this.logger.info(`Added ${newTracksCount} new tracks to playlist ${name}`);
     
-    // Update total count to reflect the actual number of tracks for this playlist
-    this.state.playlists[name].totalCount = tracks.length;
+    // Mark tracks that are no longer in the roster as removed
+    let removedTracksCount = 0;
     
-    // Recalculate counts for this playlist
+    this.state.playlists[name].tracks.forEach(track => {
+      if (markRemoved && !incomingIds.has(track.id) && track.status !== TrackStatus.REMOVED) {
+        track.status = TrackStatus.REMOVED;
+        track.removedAt = new Date().toISOString();
+        removedTracksCount++;
+        this.logger.debug(`Track removed from roster: ${track.fileName}`);
+      }
+    });
+    
+    if (removedTracksCount > 0) {
+      this.logger.info(`Marked ${removedTracksCount} tracks as removed from playlist ${name}`);
+    }
+    
+    // Recalculate counts for this playlist, including the total of selected roster tracks
     this.recalculatePlaylistCounts(name);
     
     // Recalculate overall progress
@@ -176,6 +240,50 @@ export class StateManager {
     this.saveState();
   }
 
+  /**
+   * Copy roster-derived fields of a freshly converted track onto its state entry.
+   * When the target path changed, the status found for the new path wins.
+   */
+  private refreshRosterFields(existingTrack: Track, track: Track): void {
+    if (existingTrack.filePath !== track.filePath) {
+      this.logger.debug(`Target path changed: ${existingTrack.fileName} -> ${track.fileName}`);
+      existingTrack.fileName = track.fileName;
+      existingTrack.filePath = track.filePath;
+      existingTrack.checksum = track.checksum;
+      
+      if (existingTrack.status !== TrackStatus.REMOVED) {
+        existingTrack.status = track.status || TrackStatus.PENDING;
+        existingTrack.bytesDownloaded = track.bytesDownloaded || 0;
+      }
+    }
+    
+    existingTrack.game = track.game;
+    existingTrack.title = track.title;
+    existingTrack.artist = track.artist;
+    existingTrack.downloadUrl = track.downloadUrl;
+    existingTrack.fileExt = track.fileExt;
+    existingTrack.metadata = track.metadata;
+    existingTrack.rosterIndex = track.rosterIndex;
+    existingTrack.sourceTrack = track.sourceTrack;
+  }
+
+  /**
+   * Replace random or malformed track IDs with IDs derived from the download URL.
+   * Returns the number of migrated tracks.
+   */
+  private migrateTrackIds(playlistName: string, tracks: Track[]): number {
+    let migratedCount = 0;
+    
+    tracks.forEach(track => {
+      if (isUnstableTrackId(playlistName, track.id) && track.downloadUrl) {
+        track.id = createStableTrackId(playlistName, track.downloadUrl);
+        migratedCount++;
+      }
+    });
+    
+    return migratedCount;
+  }
+
   /**
    * Recalculate count statistics for a specific playlist
    */
@@ -183,11 +291,16 @@ export class StateManager {
     const playlist = this.state.playlists[playlistName];
     if (!playlist) return;
     
+    let total = 0;
     let completed = 0;
     let failed = 0;
     let pending = 0;
     
-    playlist.tracks.forEach(track => {
+    const selectedTracks = playlist.tracks.filter(track => this.isTrackSelected(track));
+    
+    selectedTracks.forEach(track => {
+      if (track.status !== TrackStatus.REMOVED) total++;
+      
       switch (track.status) {
         case TrackStatus.COMPLETED:
         case TrackStatus.SKIPPED:
@@ -203,13 +316,14 @@ export class StateManager {
       }
     });
     
+    playlist.totalCount = total;
     playlist.completedCount = completed;
     playlist.failedCount = failed;
     playlist.pendingCount = pending;
     
-    // Check if playlist is completed
-    const allCompleted = playlist.tracks.every(
-      t => t.status === TrackStatus.COMPLETED || t.status === TrackStatus.SKIPPED
+    // Check if playlist is completed (removed tracks no longer count)
+    const allCompleted = selectedTracks.every(
+      t => t.status === TrackStatus.COMPLETED || t.status === TrackStatus.SKIPPED || t.status === TrackStatus.REMOVED
     );
     
     if (allCompleted && !playlist.completed) {
@@ -271,6 +385,89 @@ export class StateManager {
     this.saveState();
   }
 
+  /**
+   * Record the outcome of writing a track's tags (null clears a previous failure).
+   * Not saved immediately; callers tagging many files save once at the end.
+   */
+  public setTagError(playlistName: string, trackId: string, error: string | null): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    
+    if (error) {
+      track.tagError = error;
+    } else {
+      delete track.tagError;
+    }
+  }
+
+  /**
+   * Record the upstream validators of a track's file. Not saved immediately.
+   */
+  public setRemoteInfo(playlistName: string, trackId: string, remote: RemoteFileInfo): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (track) {
+      track.remote = remote;
+    }
+  }
+
+  /**
+   * Record the upstream validators of a track's partial download (null once
+   * it is finished or discarded). Not saved immediately.
+   */
+  public setPartialRemoteInfo(playlistName: string, trackId: string, remote: RemoteFileInfo | null): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    
+    if (remote) {
+      track.partialRemote = remote;
+    } else {
+      delete track.partialRemote;
+    }
+  }
+
+  /**
+   * Record the hash of a track's finished file (null forgets it). Not saved immediately.
+   */
+  public setChecksum(playlistName: string, trackId: string, checksum: FileChecksum | null): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    
+    if (checksum) {
+      track.checksum = checksum;
+    } else {
+      delete track.checksum;
+    }
+  }
+
+  /**
+   * Queue a completed track to be downloaded again (its upstream file changed
+   * or the local one is damaged), remembering where the previous version was moved
+   */
+  public queueUpdate(playlistName: string, trackId: string, backupPath?: string): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    
+    if (backupPath) {
+      track.backupPath = backupPath;
+    } else {
+      delete track.backupPath;
+    }
+    track.totalBytes = undefined;
+    track.retryCount = 0;
+    delete track.lastError;
+    this.updateTrackStatus(playlistName, trackId, TrackStatus.PENDING, 0);
+  }
+
+  /**
+   * Forget the backup of an updated track once it was deleted or restored
+   */
+  public clearBackupPath(playlistName: string, trackId: string): void {
+    const track = this.state.playlists[playlistName]?.tracks.find(t => t.id === trackId);
+    if (track) {
+      delete track.backupPath;
+    }
+  }
+
   public getCurrentPlaylist(): string {
     return this.state.currentPlaylist;
   }
@@ -316,32 +513,21 @@ export class StateManager {
       return [];
     }
     
-    // Create a map of all files that actually exist in the playlist directory
-    const existingFiles = new Map<string, boolean>();
-    try {
-      const playlistDir = path.join(process.cwd(), 'Aersia Playlists', playlistName);
-      if (fs.existsSync(playlistDir)) {
-        const files = fs.readdirSync(playlistDir);
-        files.forEach(file => {
-          existingFiles.set(file.toLowerCase(), true);
-        });
-        this.logger.debug(`Found ${files.length} files in ${playlistName} directory`);
-      }
-    } catch (error) {
-      this.logger.error(`Error checking playlist directory: ${error}`);
-    }
-    
-    // For each track, verify if file exists on disk
+    // For each track, verify if file exists on disk (case-insensitively, like verifyPlaylistFiles)
+    const fileLookup = new FileLookup();
     let updatedTracks = 0;
     playlist.tracks.forEach(track => {
-      const fileName = path.basename(track.filePath);
-      const fileExists = existingFiles.has(fileName.toLowerCase());
+      // Files of removed tracks are handled by the removed track policy
+      if (track.status === TrackStatus.REMOVED) return;
+      
+      const fileExists = fileLookup.exists(track.filePath);
       
       if (track.status === TrackStatus.COMPLETED && !fileExists) {
-        track.status = TrackStatus.PENDING;
+        // Reference tracks are not downloaded themselves, they wait to be linked again
+        track.status = isReferenceTrack(track) ? TrackStatus.SKIPPED : TrackStatus.PENDING;
         track.bytesDownloaded = 0;
         updatedTracks++;
-        this.logger.debug(`File missing for completed track, reverted to PENDING: ${track.fileName}`);
+        this.logger.debug(`File missing for completed track, reverted to ${track.status.toUpperCase()}: ${track.fileName}`);
       } else if (track.status !== TrackStatus.COMPLETED && fileExists) {
         track.status = TrackStatus.COMPLETED;
         track.bytesDownloaded = 1; // Just a placeholder
@@ -358,16 +544,25 @@ export class StateManager {
       this.saveState();
     }
     
-    // After verification, get pending tracks
+    // After verification, get pending tracks selected by the track filter
     const pendingTracks = playlist.tracks.filter(
-      t => t.status === TrackStatus.PENDING || 
-         (t.status === TrackStatus.FAILED && (t.retryCount || 0) < 5)
+      t => (t.status === TrackStatus.PENDING || 
+         (t.status === TrackStatus.FAILED && (t.retryCount || 0) < 5)) &&
+         this.isTrackSelected(t)
     );
     
     this.logger.info(`Found ${pendingTracks.length} pending tracks in playlist ${playlistName}`);
     return pendingTracks;
   }
 
+  /**
+   * Get tracks that were dropped from the upstream roster
+   */
+  public getRemovedTracks(playlistName: string): Track[] {
+    const playlist = this.state.playlists[playlistName];
+    return playlist ? playlist.tracks.filter(t => t.status === TrackStatus.REMOVED) : [];
+  }
+
   public getPlaylistStats(playlistName: string): { 
     total: number, 
     completed: number, 
@@ -404,7 +599,8 @@ export class StateManager {
       skipped: playlist.tracks.filter(t => t.status === TrackStatus.SKIPPED).length,
       pending: playlist.pendingCount,
       in_progress: playlist.tracks.filter(t => t.status === TrackStatus.IN_PROGRESS).length,
-      failed: playlist.failedCount
+      failed: playlist.failedCount,
+      removed: playlist.tracks.filter(t => t.status === TrackStatus.REMOVED).length
     };
     
     return {
@@ -419,7 +615,8 @@ export class StateManager {
         skipped: this.getSampleTracks(playlist.tracks, TrackStatus.SKIPPED, 3),
         pending: this.getSampleTracks(playlist.tracks, TrackStatus.PENDING, 3),
         in_progress: this.getSampleTracks(playlist.tracks, TrackStatus.IN_PROGRESS, 3),
-        failed: this.getSampleTracks(playlist.tracks, TrackStatus.FAILED, 3)
+        failed: this.getSampleTracks(playlist.tracks, TrackStatus.FAILED, 3),
+        removed: this.getSampleTracks(playlist.tracks, TrackStatus.REMOVED, 3)
       }
     };
   }
@@ -0,0 +1,116 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import { Track, TrackStatus } from '../models/track.model';
+import { HostRateLimiter } from '../utils/host-rate-limiter';
+import { hasRemoteFileChanged, parseRetryAfter, readRemoteFileInfo } from '../utils/remote-file';
+import { isReferenceTrack } from '../utils/track-reference';
+import { Logger } from './logger.service';
+import { StateManager } from './state.service';
+
+export interface UpdateCheckResult {
+  checked: number;
+  changed: number;
+  failed: number;
+}
+
+/**
+ * Detects upstream files that were replaced after they were downloaded, using
+ * conditional HEAD requests against the recorded ETag/Last-Modified/Content-Length,
+ * and queues them to be downloaded again
+ */
+export class UpdateChecker {
+  constructor(
+    private logger: Logger,
+    private stateManager: StateManager,
+    private rateLimiter: HostRateLimiter
+  ) {}
+
+  /**
+   * Check the completed tracks of a playlist. Changed files are moved to a
+   * backup next to the original and their tracks reset to PENDING.
+   */
+  public async checkPlaylist(playlistName: string): Promise<UpdateCheckResult> {
+    const result: UpdateCheckResult = { checked: 0, changed: 0, failed: 0 };
+    const playlist = this.stateManager.getPlaylistState(playlistName);
+    if (!playlist) return result;
+    
+    // Reference tracks share the referenced playlist's file and are checked there
+    const tracks = playlist.tracks.filter((track: Track) =>
+      track.status === TrackStatus.COMPLETED &&
+      !isReferenceTrack(track) &&
+      this.stateManager.isTrackSelected(track) &&
+      fs.existsSync(track.filePath)
+    );
+    
+    this.logger.info(`Checking ${tracks.length} tracks in ${playlistName} for upstream changes...`);
+    
+    for (const track of tracks) {
+      result.checked++;
+      try {
+        if (await this.checkTrack(track)) {
+          result.changed++;
+        }
+      } catch (error: any) {
+        // Later checks of the same host wait as long as the server asked
+        const status = error.response?.status;
+        const retryAfterMs = status === 429 || status === 503 ? parseRetryAfter(error.response.headers?.['retry-after']) : null;
+        if (retryAfterMs !== null) {
+          this.rateLimiter.pauseHost(track.downloadUrl, retryAfterMs);
+        }
+        
+        result.failed++;
+        this.logger.warn(`Update check failed for ${track.fileName}: ${error.message}`);
+      }
+    }
+    
+    this.stateManager.saveState();
+    this.logger.info(
+      `Checked ${result.checked} tracks in ${playlistName}: ${result.changed} changed upstream` +
+      (result.failed > 0 ? `, ${result.failed} could not be checked` : '')
+    );
+    
+    return result;
+  }
+
+  /**
+   * Check one track, returning whether it was queued for download
+   */
+  private async checkTrack(track: Track): Promise<boolean> {
+    const headers: { [name: string]: string } = {};
+    if (track.remote?.etag) {
+      headers['If-None-Match'] = track.remote.etag;
+    } else if (track.remote?.lastModified) {
+      headers['If-Modified-Since'] = track.remote.lastModified;
+    }
+    
+    await this.rateLimiter.removeToken(track.downloadUrl);
+    const response = await axios.head(track.downloadUrl, {
+      headers,
+      validateStatus: status => status === 200 || status === 304
+    });
+    
+    if (response.status === 304) {
+      this.stateManager.setRemoteInfo(track.playlistName, track.id, { ...track.remote, checkedAt: new Date().toISOString() });
+      return false;
+    }
+    
+    const current = readRemoteFileInfo(response.headers);
+    
+    // Files found on disk instead of downloaded only have a placeholder size
+    const downloadedSize = track.totalBytes && track.totalBytes > 1 ? track.totalBytes : undefined;
+    
+    if (!hasRemoteFileChanged(track.remote, current, downloadedSize)) {
+      // Tracks downloaded before validators were recorded get them now
+      this.stateManager.setRemoteInfo(track.playlistName, track.id, track.remote ? { ...track.remote, checkedAt: current.checkedAt } : current);
+      return false;
+    }
+    
+    // Keep the previous version until the new one has been downloaded
+    const backupPath = `${track.filePath}.bak`;
+    await fs.promises.rename(track.filePath, backupPath);
+    this.stateManager.queueUpdate(track.playlistName, track.id, backupPath);
+    
+    this.logger.info(`Upstream file changed: ${track.fileName}`);
+    return true;
+  }
+}
\ No newline at end of file
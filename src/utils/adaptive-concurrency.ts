@@ -0,0 +1,107 @@
+export interface AdaptiveConcurrencyOptions {
+  min: number;
+  max: number;
+  initial: number;
+  intervalMs?: number;    // Length of a throughput measurement window
+}
+
+// Throughput must change by this fraction to count as better or worse
+const THROUGHPUT_TOLERANCE = 0.05;
+
+// Windows to wait after an increase did not pay off before probing again
+const HOLD_WINDOWS = 3;
+
+/**
+ * Finds the number of parallel downloads the link and servers handle best:
+ * raises it one step at a time while the aggregate throughput improves,
+ * steps back when an increase did not pay off, and halves it on timeouts,
+ * connection resets and throttling responses.
+ */
+export class AdaptiveConcurrency {
+  private level: number;
+  private bytes: number = 0;
+  private windowStart: number = Date.now();
+  private saturated: boolean = false;   // All slots were busy in this window
+  private congested: boolean = false;   // A timeout, reset or 429 happened in this window
+  private baseline: number | null = null;  // Throughput before the last increase
+  private raisedFrom: number | null = null;
+  private holdWindows: number = 0;
+  private intervalMs: number;
+  
+  constructor(private options: AdaptiveConcurrencyOptions) {
+    this.level = Math.min(Math.max(options.initial, options.min), options.max);
+    this.intervalMs = options.intervalMs ?? 10000;
+  }
+
+  public getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * Count downloaded bytes towards the current window
+   */
+  public recordBytes(bytes: number): void {
+    this.bytes += bytes;
+  }
+
+  /**
+   * Note how many downloads are running, to only raise the level when it is the bottleneck
+   */
+  public recordActive(active: number): void {
+    if (active >= this.level) {
+      this.saturated = true;
+    }
+  }
+
+  /**
+   * Back off right away on signs of an overloaded link or server, once per
+   * measurement window (a burst of failing downloads is one congestion).
+   * Returns whether the level changed.
+   */
+  public recordCongestion(): boolean {
+    if (this.congested) return false;
+    
+    const previousLevel = this.level;
+    this.congested = true;
+    this.level = Math.max(this.options.min, Math.floor(this.level / 2));
+    this.raisedFrom = null;
+    this.baseline = null;
+    
+    return this.level !== previousLevel;
+  }
+
+  /**
+   * Close the current measurement window if it is over and adjust the level.
+   * Returns whether the level changed.
+   */
+  public evaluate(now: number = Date.now()): boolean {
+    const elapsed = now - this.windowStart;
+    if (elapsed < this.intervalMs) return false;
+    
+    const throughput = this.bytes / elapsed * 1000;
+    const previousLevel = this.level;
+    
+    if (this.raisedFrom !== null && this.baseline !== null && throughput < this.baseline * (1 + THROUGHPUT_TOLERANCE)) {
+      // The last increase did not help: go back and stay there for a while
+      this.level = this.raisedFrom;
+      this.raisedFrom = null;
+      this.holdWindows = HOLD_WINDOWS;
+    } else if (this.holdWindows > 0) {
+      this.holdWindows--;
+      this.raisedFrom = null;
+    } else if (!this.congested && this.saturated && this.level < this.options.max) {
+      this.baseline = throughput;
+      this.raisedFrom = this.level;
+      this.level++;
+    } else {
+      this.raisedFrom = null;
+    }
+    
+    this.bytes = 0;
+    this.windowStart = now;
+    this.saturated = false;
+    this.congested = false;
+    
+    return this.level !== previousLevel;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { Transform } from 'stream';
+
+// Largest piece of a chunk released at once, so concurrent streams take turns
+const SLICE_BYTES = 16 * 1024;
+
+// Unused bandwidth is kept for at most this long (allows short bursts)
+const BURST_MS = 250;
+
+const SIZE_UNITS: { [unit: string]: number } = {
+  b: 1,
+  k: 1024, kb: 1024, kib: 1024,
+  m: 1024 ** 2, mb: 1024 ** 2, mib: 1024 ** 2,
+  g: 1024 ** 3, gb: 1024 ** 3, gib: 1024 ** 3
+};
+
+/**
+ * Parse a byte rate like "2MB/s", "500 KB" or "1048576" into bytes per second.
+ * "unlimited", "0" and empty values mean no limit (null).
+ */
+export function parseBandwidth(value: string | number | undefined | null): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return value > 0 ? value : null;
+  
+  const text = value.trim().toLowerCase();
+  if (text === '' || text === 'unlimited' || text === 'none') return null;
+  
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)(?:\/s)?$/.exec(text);
+  if (!match || SIZE_UNITS[match[2] || 'b'] === undefined) {
+    throw new Error(`Invalid bandwidth "${value}" (expected e.g. 2MB/s, 500KB/s or unlimited)`);
+  }
+
+  const bytesPerSecond = Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b']);
+  return bytesPerSecond > 0 ? bytesPerSecond : null;
+}
+
+/**
+ * A token bucket of bytes shared by all download streams. Streams wait in
+ * line for slices of their chunks, so the bandwidth is split evenly between
+ * active downloads. The limit can be changed at any time.
+ */
+export class BandwidthLimiter {
+  private available: number = 0;
+  private lastRefill: number = Date.now();
+  private waiting: Array<{ bytes: number, resolve: () => void }> = [];
+  private timer: NodeJS.Timeout | null = null;
+  
+  constructor(private bytesPerSecond: number | null = null) {}
+
+  /**
+   * Current limit in bytes per second, null when unlimited
+   */
+  public getLimit(): number | null {
+    return this.bytesPerSecond;
+  }
+
+  /**
+   * Change the limit (null for unlimited), also for streams already running
+   */
+  public setLimit(bytesPerSecond: number | null): void {
+    this.refill();
+    this.bytesPerSecond = bytesPerSecond;
+    this.available = Math.min(this.available, this.getCapacity());
+    this.drain();
+  }
+
+  /**
+   * Wait until the given number of bytes may be passed on
+   */
+  public consume(bytes: number): Promise<void> {
+    if (this.bytesPerSecond === null && this.waiting.length === 0) {
+      return Promise.resolve();
+    }
+    
+    return new Promise<void>(resolve => {
+      this.waiting.push({ bytes, resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Create a stream that passes data through at the limiter's pace
+   */
+  public createThrottle(): Transform {
+    const limiter = this;
+    return new Transform({
+      async transform(chunk: Buffer, _encoding, callback) {
+        for (let offset = 0; offset < chunk.length; offset += SLICE_BYTES) {
+          const slice = chunk.subarray(offset, offset + SLICE_BYTES);
+          await limiter.consume(slice.length);
+          this.push(slice);
+        }
+        callback();
+      }
+    });
+  }
+
+  /**
+   * Release waiting streams in order while the bucket has enough bytes
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    
+    if (this.bytesPerSecond === null) {
+      this.waiting.splice(0).forEach(waiter => waiter.resolve());
+      return;
+    }
+    
+    this.refill();
+    while (this.waiting.length > 0 && this.available >= Math.min(this.waiting[0].bytes, this.getCapacity())) {
+      const waiter = this.waiting.shift()!;
+      this.available -= waiter.bytes;
+      waiter.resolve();
+    }
+    
+    if (this.waiting.length > 0) {
+      const needed = Math.min(this.waiting[0].bytes, this.getCapacity()) - this.available;
+      const waitMs = Math.max(1, Math.ceil(needed / this.bytesPerSecond * 1000));
+      this.timer = setTimeout(() => this.drain(), waitMs);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.bytesPerSecond !== null) {
+      this.available = Math.min(
+        this.available + (now - this.lastRefill) / 1000 * this.bytesPerSecond,
+        this.getCapacity()
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  private getCapacity(): number {
+    return Math.max(SLICE_BYTES, (this.bytesPerSecond || 0) * BURST_MS / 1000);
+  }
+}
\ No newline at end of file
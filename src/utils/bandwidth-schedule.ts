@@ -0,0 +1,38 @@
+import { BandwidthScheduleEntry } from '../config/config';
+import { parseBandwidth } from './bandwidth-limiter';
+
+/**
+ * Bandwidth limit in effect at a given time: the first schedule entry whose
+ * time window contains it, otherwise the default limit. Throws on invalid
+ * entries, so the configuration can be checked up front.
+ */
+export function resolveBandwidthLimit(
+  maxBandwidth: string | undefined,
+  schedule: BandwidthScheduleEntry[] = [],
+  date: Date = new Date()
+): number | null {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  
+  const windows = schedule.map(entry => ({
+    from: parseTimeOfDay(entry.from),
+    to: parseTimeOfDay(entry.to),
+    limit: parseBandwidth(entry.maxBandwidth)
+  }));
+  const defaultLimit = parseBandwidth(maxBandwidth);
+  
+  // Windows like 22:00-07:00 wrap around midnight
+  const current = windows.find(({ from, to }) => from <= to
+    ? minute >= from && minute < to
+    : minute >= from || minute < to
+  );
+  
+  return current ? current.limit : defaultLimit;
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  if (!match || parseInt(match[1], 10) > 24 || parseInt(match[2], 10) > 59) {
+    throw new Error(`Invalid time "${value}" in bandwidthSchedule (expected HH:MM)`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Track, TrackStatus } from '../models/track.model';
+
+/**
+ * Path of a playlist's checksum manifest, next to its exported playlist files
+ */
+export function getChecksumManifestPath(outputDir: string, playlistName: string): string {
+  return path.join(outputDir, `${playlistName}.sha256`);
+}
+
+/**
+ * Write a playlist's checksums in the `sha256sum` format ("<hash>  <path>"),
+ * with paths relative to the output directory so the library can be checked
+ * with `sha256sum -c` from there. Returns the number of entries.
+ */
+export async function writeChecksumManifest(outputDir: string, playlistName: string, tracks: Track[]): Promise<number> {
+  const lines = tracks
+    .filter(track => track.status === TrackStatus.COMPLETED && track.checksum)
+    .map(track => `${track.checksum!.sha256}  ${path.relative(outputDir, track.filePath).split(path.sep).join('/')}`)
+    .sort((a, b) => a.slice(66).localeCompare(b.slice(66)));
+  
+  if (lines.length === 0) return 0;
+  
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(getChecksumManifestPath(outputDir, playlistName), lines.join('\n') + '\n', 'utf8');
+  return lines.length;
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Duplex } from 'stream';
+
+export interface DownloadTimeouts {
+  connectMs: number;     // Until the connection to the server is established
+  firstByteMs: number;   // From the established connection to the first byte of the body
+  idleMs: number;        // Between two chunks of the body
+}
+
+/**
+ * Aborts a download through its AbortController when connecting, waiting
+ * for the first byte or a silent stream takes too long (0 disables a
+ * timeout). The abort reason is kept as an ETIMEDOUT error, so it is
+ * retried like a network timeout.
+ */
+export class DownloadWatchdog {
+  private timer: NodeJS.Timeout | null = null;
+  private timeoutError: Error | null = null;
+  
+  constructor(
+    private abortController: AbortController,
+    private timeouts: DownloadTimeouts
+  ) {}
+
+  /**
+   * Start the connect timeout. Returns agents for the request that report
+   * established connections (each connection of a redirect chain as well).
+   */
+  public start(): { httpAgent: http.Agent, httpsAgent: https.Agent } {
+    this.arm(this.timeouts.connectMs, `No connection within ${formatSeconds(this.timeouts.connectMs)}`);
+    
+    const onConnect = () => this.arm(this.timeouts.firstByteMs, `No data within ${formatSeconds(this.timeouts.firstByteMs)} of connecting`);
+    
+    return {
+      httpAgent: new ConnectionReportingAgent(onConnect),
+      httpsAgent: new SecureConnectionReportingAgent(onConnect)
+    };
+  }
+
+  /**
+   * Note data of the response body, restarting the idle timeout
+   */
+  public activity(): void {
+    this.arm(this.timeouts.idleMs, `No data for ${formatSeconds(this.timeouts.idleMs)}`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Error describing the timeout that aborted the download, if one did
+   */
+  public getTimeoutError(): Error | null {
+    return this.timeoutError;
+  }
+
+  private arm(ms: number, message: string): void {
+    this.stop();
+    if (!(ms > 0)) return;
+    
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.timeoutError = Object.assign(new Error(message), { code: 'ETIMEDOUT' });
+      this.abortController.abort();
+    }, ms);
+  }
+}
+
+class ConnectionReportingAgent extends http.Agent {
+  constructor(private onConnect: () => void) {
+    super();
+  }
+
+  public createConnection(options: any, callback?: any): Duplex | null | undefined {
+    const socket = super.createConnection(options, callback);
+    socket?.once('connect', this.onConnect);
+    return socket;
+  }
+}
+
+class SecureConnectionReportingAgent extends https.Agent {
+  constructor(private onConnect: () => void) {
+    super();
+  }
+
+  public createConnection(options: any, callback?: any): Duplex | null | undefined {
+    const socket = super.createConnection(options, callback);
+    socket?.once('secureConnect', this.onConnect);
+    return socket;
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Case-insensitive file existence checks through cached directory listings.
+ * Shared by every place that decides whether a track's file is present, so
+ * a file whose name differs only in case is found (or not) by all of them.
+ */
+export class FileLookup {
+  private directoryListings: Map<string, Set<string>> = new Map();
+  
+  constructor(private onError?: (dir: string, error: any) => void) {}
+  
+  public exists(filePath: string): boolean {
+    const dir = path.dirname(filePath);
+    let files = this.directoryListings.get(dir);
+    
+    if (!files) {
+      files = new Set<string>();
+      try {
+        if (fs.existsSync(dir)) {
+          fs.readdirSync(dir).forEach(file => files!.add(file.toLowerCase()));
+        }
+      } catch (error: any) {
+        this.onError?.(dir, error);
+      }
+      this.directoryListings.set(dir, files);
+    }
+    
+    return files.has(path.basename(filePath).toLowerCase());
+  }
+
+  /**
+   * Number of directories listed so far
+   */
+  public getDirectoryCount(): number {
+    return this.directoryListings.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Request rate limiting with a separate bucket per host, so a slow or
+ * throttling server does not hold back requests to the others. Hosts take
+ * their rate from the most specific entry of `hostRequestsPerMinute`
+ * ("wap.aersia.net", then "aersia.net"), or the default rate.
+ */
+export class HostRateLimiter {
+  private limiters: Map<string, RateLimiter> = new Map();
+  
+  constructor(
+    private defaultRequestsPerMinute: number,
+    private hostRequestsPerMinute: { [host: string]: number } = {}
+  ) {}
+
+  /**
+   * Wait for a request token of the URL's host
+   */
+  public removeToken(url: string): Promise<void> {
+    return this.getLimiter(url).removeTokens(1);
+  }
+
+  /**
+   * Check whether a request to the URL's host could start right away
+   */
+  public isReady(url: string): boolean {
+    return this.getLimiter(url).tryRemoveTokens(1);
+  }
+
+  /**
+   * Hold back requests to the URL's host, e.g. for a Retry-After response
+   */
+  public pauseHost(url: string, ms: number): void {
+    this.getLimiter(url).pause(ms);
+  }
+
+  /**
+   * Check whether requests to the URL's host are held back by pauseHost
+   */
+  public isPaused(url: string): boolean {
+    return this.getLimiter(url).isPaused();
+  }
+
+  private getLimiter(url: string): RateLimiter {
+    const host = getHost(url);
+    let limiter = this.limiters.get(host);
+    
+    if (!limiter) {
+      limiter = new RateLimiter({
+        tokensPerInterval: this.getRequestsPerMinute(host),
+        interval: 60 * 1000, // 1 minute
+      });
+      this.limiters.set(host, limiter);
+    }
+    
+    return limiter;
+  }
+
+  private getRequestsPerMinute(host: string): number {
+    const labels = host.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const domain = labels.slice(i).join('.');
+      if (this.hostRequestsPerMinute[domain] !== undefined) {
+        return this.hostRequestsPerMinute[domain];
+      }
+    }
+    return this.defaultRequestsPerMinute;
+  }
+}
+
+/**
+ * Host of a URL in lowercase ("" for invalid URLs, which share one bucket)
+ */
+export function getHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return '';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+
+/**
+ * Minimal MP4/M4A cover art support. taglib3 only exposes text properties,
+ * so the iTunes "covr" atom (moov/udta/meta/ilst/covr) is written directly.
+ */
+
+interface Box {
+  type: string;
+  start: number;       // Offset of the box header
+  headerSize: number;
+  size: number;        // Total size including the header
+}
+
+// "data" atom type indicators for images
+const DATA_TYPE_JPEG = 13;
+const DATA_TYPE_PNG = 14;
+
+// Boxes whose children are boxes, on the way to the sample tables
+const CONTAINER_TYPES = ['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'ilst'];
+
+/**
+ * Embed an image as the cover of an MP4 file, replacing any existing cover
+ */
+export async function embedCoverArt(filePath: string, image: Buffer): Promise<void> {
+  const file = await fs.promises.readFile(filePath);
+  const boxes = readBoxes(file, 0, file.length);
+  
+  const moov = boxes.find(box => box.type === 'moov');
+  if (!moov) {
+    throw new Error('Not an MP4 file (no moov atom)');
+  }
+  if (moov.headerSize !== 8) {
+    throw new Error('64-bit moov atoms are not supported');
+  }
+
+  const oldMoov = file.subarray(moov.start, moov.start + moov.size);
+  const newMoov = setCoverInMoov(oldMoov, image);
+  const delta = newMoov.length - oldMoov.length;
+  
+  // Media data after the moov atom moves by the size difference
+  const moovEnd = moov.start + moov.size;
+  if (delta !== 0 && boxes.some(box => box.type === 'mdat' && box.start >= moovEnd)) {
+    shiftChunkOffsets(newMoov, moovEnd, delta);
+  }
+
+  const tempPath = `${filePath}.cover`;
+  await fs.promises.writeFile(tempPath, Buffer.concat([
+    file.subarray(0, moov.start),
+    newMoov,
+    file.subarray(moovEnd)
+  ]));
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Read the embedded cover of an MP4 file, or null if it has none
+ */
+export async function readCoverArt(filePath: string): Promise<Buffer | null> {
+  const file = await fs.promises.readFile(filePath);
+  
+  const moov = readBoxes(file, 0, file.length).find(box => box.type === 'moov');
+  const udta = moov && findChild(file, moov, 'udta');
+  const meta = udta && findChild(file, udta, 'meta');
+  const ilst = meta && findChild(file, meta, 'ilst', 4);
+  const covr = ilst && findChild(file, ilst, 'covr');
+  const data = covr && findChild(file, covr, 'data');
+  
+  // data atom: header, type indicator (4 bytes), locale (4 bytes), image
+  return data ? Buffer.from(file.subarray(data.start + data.headerSize + 8, data.start + data.size)) : null;
+}
+
+/**
+ * Rebuild a moov atom with the cover set in moov/udta/meta/ilst,
+ * creating the intermediate atoms when they are missing
+ */
+function setCoverInMoov(moov: Buffer, image: Buffer): Buffer {
+  const isPng = image.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  const covr = makeBox('covr', makeBox('data', Buffer.concat([
+    uint32(isPng ? DATA_TYPE_PNG : DATA_TYPE_JPEG),
+    uint32(0),  // Locale
+    image
+  ])));
+  
+  return updateChild(moov, 0, 'udta', udta =>
+    updateChild(udta, 0, 'meta', meta => {
+      // meta is a full box and needs a handler as its first child
+      const withHandler = childBuffers(meta, 4).some(child => child.type === 'hdlr')
+        ? meta
+        : rebuildContainer(meta, 4, [makeMetaHandler(), ...childBuffers(meta, 4).map(child => child.buffer)]);
+      return updateChild(withHandler, 4, 'ilst', ilst => setChild(ilst, 0, covr));
+    }, () => makeBox('meta', uint32(0)))
+  );
+}
+
+/**
+ * Replace the child box of a container with the result of update, appending
+ * it (starting from `create`) when missing. `prefixSize` is the number of
+ * bytes between the header and the children (4 for full boxes like meta).
+ */
+function updateChild(
+  container: Buffer,
+  prefixSize: number,
+  type: string,
+  update: (child: Buffer) => Buffer,
+  create: () => Buffer = () => makeBox(type, Buffer.alloc(0))
+): Buffer {
+  const children = childBuffers(container, prefixSize);
+  const index = children.findIndex(child => child.type === type);
+  
+  if (index === -1) {
+    children.push({ type, buffer: update(create()) });
+  } else {
+    children[index] = { type, buffer: update(children[index].buffer) };
+  }
+
+  return rebuildContainer(container, prefixSize, children.map(child => child.buffer));
+}
+
+/**
+ * Replace all children of the given box's type with that box
+ */
+function setChild(container: Buffer, prefixSize: number, box: Buffer): Buffer {
+  const type = box.toString('latin1', 4, 8);
+  const children = childBuffers(container, prefixSize)
+    .filter(child => child.type !== type)
+    .map(child => child.buffer);
+  
+  return rebuildContainer(container, prefixSize, [...children, box]);
+}
+
+/**
+ * Rebuild a container with new children, keeping the bytes after its last
+ * complete child (e.g. the zero padding some encoders put into udta)
+ */
+function rebuildContainer(container: Buffer, prefixSize: number, children: Buffer[]): Buffer {
+  const boxes = readBoxes(container, 8 + prefixSize, container.length);
+  const childrenEnd = boxes.length > 0 ? boxes[boxes.length - 1].start + boxes[boxes.length - 1].size : 8 + prefixSize;
+  
+  return makeBox(container.toString('latin1', 4, 8), Buffer.concat([
+    container.subarray(8, 8 + prefixSize),
+    ...children,
+    container.subarray(childrenEnd)
+  ]));
+}
+
+/**
+ * Add delta to all stco/co64 chunk offsets pointing at or after `threshold`
+ */
+function shiftChunkOffsets(moov: Buffer, threshold: number, delta: number): void {
+  const visit = (start: number, end: number) => {
+    readBoxes(moov, start, end).forEach(box => {
+      const contentStart = box.start + box.headerSize;
+      const boxEnd = box.start + box.size;
+      
+      if (CONTAINER_TYPES.includes(box.type)) {
+        visit(contentStart, boxEnd);
+      } else if (box.type === 'stco') {
+        const count = moov.readUInt32BE(contentStart + 4);
+        for (let i = 0; i < count; i++) {
+          const offset = contentStart + 8 + i * 4;
+          const value = moov.readUInt32BE(offset);
+          if (value >= threshold) moov.writeUInt32BE(value + delta, offset);
+        }
+      } else if (box.type === 'co64') {
+        const count = moov.readUInt32BE(contentStart + 4);
+        for (let i = 0; i < count; i++) {
+          const offset = contentStart + 8 + i * 8;
+          const value = moov.readBigUInt64BE(offset);
+          if (value >= BigInt(threshold)) moov.writeBigUInt64BE(value + BigInt(delta), offset);
+        }
+      }
+    });
+  };
+  
+  const moovBox = readBoxes(moov, 0, moov.length)[0];
+  visit(moovBox.headerSize, moov.length);
+}
+
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+    
+    // Zero padding at the end of a container (e.g. udta), not a box
+    if (size === 0 && type === '\0\0\0\0') {
+      break;
+    }
+    
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    
+    if (size < headerSize || offset + size > end) {
+      break;  // Truncated or not a box
+    }
+    
+    boxes.push({ type, start: offset, headerSize, size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function findChild(buffer: Buffer, parent: Box, type: string, prefixSize: number = 0): Box | undefined {
+  return readBoxes(buffer, parent.start + parent.headerSize + prefixSize, parent.start + parent.size)
+    .find(box => box.type === type);
+}
+
+function childBuffers(container: Buffer, prefixSize: number): Array<{ type: string, buffer: Buffer }> {
+  return readBoxes(container, 8 + prefixSize, container.length)
+    .map(box => ({ type: box.type, buffer: container.subarray(box.start, box.start + box.size) }));
+}
+
+function makeBox(type: string, content: Buffer): Buffer {
+  return Buffer.concat([uint32(content.length + 8), Buffer.from(type, 'latin1'), content]);
+}
+
+/**
+ * Handler reference required in the iTunes metadata atom
+ */
+function makeMetaHandler(): Buffer {
+  return makeBox('hdlr', Buffer.concat([
+    uint32(0),                          // Version and flags
+    uint32(0),                          // Pre-defined
+    Buffer.from('mdir', 'latin1'),      // Handler type
+    Buffer.from('appl', 'latin1'),      // Reserved (manufacturer)
+    Buffer.alloc(9)                     // Reserved and empty name
+  ]));
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
\ No newline at end of file
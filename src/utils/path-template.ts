@@ -0,0 +1,108 @@
+import * as path from 'path';
+import { sanitize } from 'sanitize-filename-ts';
+import { Track, TrackMetadata } from '../models/track.model';
+
+// Matches {token} and {token:width}
+const TOKEN_PATTERN = /\{([\w.]+)(?::(\d+))?\}/g;
+
+// Shorthand tokens on top of the Track and TrackMetadata field names
+const TOKEN_ALIASES = ['playlist', 'index', 'ext', 'name'];
+
+// Track fields usable in templates
+const TRACK_FIELDS: readonly (keyof Track)[] = ['id', 'playlistName', 'game', 'title', 'artist', 'fileExt', 'rosterIndex'];
+
+// TrackMetadata fields usable in templates, either plain ({album}) or prefixed ({metadata.title})
+const METADATA_FIELDS: readonly (keyof TrackMetadata)[] = [
+  'title', 'artist', 'album', 'year', 'composer', 'arranger',
+  'albumArtist', 'trackNumber', 'genre', 'comment', 'grouping', 'compilation'
+];
+
+/**
+ * Values a template is rendered with
+ */
+export interface TemplateContext {
+  track: Track;
+  defaultName: string;  // Legacy file name without extension, available as {name}
+}
+
+/**
+ * List the tokens of a template that cannot be resolved
+ */
+export function findUnknownTemplateTokens(template: string): string[] {
+  const unknown: string[] = [];
+  
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const token = match[1];
+    const field = token.startsWith('metadata.') ? token.substring('metadata.'.length) : null;
+    const known = field !== null
+      ? isMetadataField(field)
+      : TOKEN_ALIASES.includes(token) || isTrackField(token) || isMetadataField(token);
+    
+    if (!known) {
+      unknown.push(token);
+    }
+  }
+
+  return unknown;
+}
+
+/**
+ * Render a file name template into a relative path without extension.
+ * Every path segment is sanitized separately, empty segments are dropped.
+ */
+export function renderPathTemplate(template: string, context: TemplateContext): string {
+  const segments = template
+    .split(/[\\/]/)
+    .map(segment => sanitize(
+      segment.replace(TOKEN_PATTERN, (_, token: string, width?: string) => {
+        const value = resolveToken(token, context);
+        return width ? value.padStart(parseInt(width, 10), '0') : value;
+      }).trim()
+    ))
+    .filter(segment => segment !== '');
+  
+  return segments.length > 0 ? segments.join(path.sep) : sanitize(context.defaultName);
+}
+
+/**
+ * Resolve a single token to its string value
+ */
+function resolveToken(token: string, { track, defaultName }: TemplateContext): string {
+  let value: unknown;
+  
+  switch (token) {
+    case 'playlist':
+      value = track.playlistName;
+      break;
+    case 'index':
+      // 1-based position in the upstream roster
+      value = track.rosterIndex !== undefined ? track.rosterIndex + 1 : undefined;
+      break;
+    case 'ext':
+      value = track.fileExt;
+      break;
+    case 'name':
+      value = defaultName;
+      break;
+    default: {
+      const field = token.startsWith('metadata.') ? token.substring('metadata.'.length) : null;
+      if (field !== null) {
+        value = isMetadataField(field) ? track.metadata[field] : undefined;
+      } else if (isTrackField(token)) {
+        value = track[token];
+      } else if (isMetadataField(token)) {
+        value = track.metadata[token];
+      }
+    }
+  }
+
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function isTrackField(token: string): token is keyof Track {
+  return (TRACK_FIELDS as readonly string[]).includes(token);
+}
+
+function isMetadataField(token: string): token is keyof TrackMetadata {
+  return (METADATA_FIELDS as readonly string[]).includes(token);
+}
\ No newline at end of file
@@ -2,9 +2,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
  
-import { loadConfig } from '../config/config';
+import { loadConfig, resolvePlaylistEntries } from '../config/config';
 import { Track, TrackStatus } from '../models/track.model';
+import { FOLDER_IMAGE_NAMES } from '../services/artwork.service';
 import { Logger, LogLevel } from '../services/logger.service';
+import { ARCHIVE_DIR_NAME, getArchivedFilePath } from '../services/playlist.service';
 
 interface PlaylistStatusReport {
   name: string;
@@ -14,11 +16,14 @@ interface PlaylistStatusReport {
   failed: number;
   inProgress: number;
   skipped: number;
+  removed: number;
   fileSystemStatus: {
     expectedFiles: number;
     actualFiles: number;
     missingFiles: string[];
     extraFiles: string[];
+    removedFiles: string[];    // Files of removed tracks still in the playlist folder
+    archivedFiles: string[];   // Files of removed tracks moved to the archive folder
   };
 }
 
@@ -54,8 +59,10 @@ async function generatePlaylistStatus(): Promise<void> {
     logger.info("\n===== CONFIG PLAYLIST INFO =====\n");
     const config = loadConfig();
     logger.info(`Playlists defined in config.ts:`);
-    for (const [name, url] of Object.entries(config.playlists)) {
-      logger.info(`  ${name}: ${url ? 'Enabled' : 'Disabled'}`);
+    const enabledPlaylists = resolvePlaylistEntries(config);
+    for (const name of Object.keys(config.playlists)) {
+      const entry = enabledPlaylists.find(playlist => playlist.name === name);
+      logger.info(`  ${name}: ${entry ? `Enabled (${entry.format})` : 'Disabled'}`);
     }
     
     // Now check what playlists exist in the state file
@@ -63,7 +70,7 @@ async function generatePlaylistStatus(): Promise<void> {
     logger.info(`\nPlaylists in state file: ${playlistsInState.join(', ') || 'None'}`);
     
     // Check if any playlists are missing from the state file
-    const playlistsInConfig = Object.keys(config.playlists).filter(name => config.playlists[name]);
+    const playlistsInConfig = enabledPlaylists.map(playlist => playlist.name);
     const missingPlaylists = playlistsInConfig.filter(name => !playlistsInState.includes(name));
     
     if (missingPlaylists.length > 0) {
@@ -162,7 +169,8 @@ function generatePlaylistReport(
     pending: 0,
     failed: 0,
     inProgress: 0,
-    skipped: 0
+    skipped: 0,
+    removed: 0
   };
   
   const tracks = playlist.tracks || [];
@@ -170,6 +178,8 @@ function generatePlaylistReport(
   // Keep track of expected files and missing files
   const expectedFiles = new Set<string>();
   const missingFiles: string[] = [];
+  const removedFilePaths = new Set<string>();
+  const archivedFiles: string[] = [];
   
   // Process each track
   tracks.forEach((track : Track) => {
@@ -193,6 +203,14 @@ function generatePlaylistReport(
       case TrackStatus.SKIPPED:
         statusCounts.skipped++;
         break;
+      case TrackStatus.REMOVED:
+        statusCounts.removed++;
+        if (fs.existsSync(track.filePath)) {
+          removedFilePaths.add(track.filePath);
+        } else if (fs.existsSync(getArchivedFilePath(config.outputDir, playlistName, track.filePath))) {
+          archivedFiles.push(track.fileName);
+        }
+        break;
     }
   });
   
@@ -201,31 +219,50 @@ function generatePlaylistReport(
   let actualFiles: string[] = [];
   
   if (fs.existsSync(playlistDir)) {
-    actualFiles = fs.readdirSync(playlistDir)
-      .filter(file => !file.endsWith('.download')) // Ignore temporary files
-      .map(file => path.join(playlistDir, file));
+    actualFiles = listFiles(playlistDir)
+      .filter(file => !file.endsWith('.download')); // Ignore temporary files
     
-    extraFiles = actualFiles.filter(file => !expectedFiles.has(file))
-      .map(file => path.basename(file));
+    // Files of removed tracks are reported separately
+    extraFiles = actualFiles.filter(file => !expectedFiles.has(file) && !removedFilePaths.has(file))
+      .map(file => path.relative(playlistDir, file));
   }
   
   return {
     name: playlistName,
-    total: tracks.length,
+    total: tracks.length - statusCounts.removed,
     completed: statusCounts.completed,
     pending: statusCounts.pending,
     failed: statusCounts.failed,
     inProgress: statusCounts.inProgress,
     skipped: statusCounts.skipped,
+    removed: statusCounts.removed,
     fileSystemStatus: {
       expectedFiles: expectedFiles.size,
       actualFiles: actualFiles.length,
       missingFiles,
-      extraFiles
+      extraFiles,
+      removedFiles: Array.from(removedFilePaths).map(file => path.basename(file)),
+      archivedFiles
     }
   };
 }
 
+/**
+ * List files in a playlist directory, including nested folders created by the
+ * file name template but not the removed tracks archive or the album images
+ */
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.name !== ARCHIVE_DIR_NAME)
+    .flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return listFiles(entryPath);
+      }
+      return FOLDER_IMAGE_NAMES.includes(entry.name.toLowerCase()) ? [] : [entryPath];
+    });
+}
+
 /**
  * Log detailed report for a playlist
  */
@@ -237,6 +274,7 @@ function logPlaylistReport(report: PlaylistStatusReport, logger: Logger): void {
   logger.info(`  Failed: ${report.failed}`);
   logger.info(`  In Progress: ${report.inProgress}`);
   logger.info(`  Skipped: ${report.skipped}`);
+  logger.info(`  Removed from roster: ${report.removed}`);
   logger.info(`  File System Status:`);
   logger.info(`    Expected Files: ${report.fileSystemStatus.expectedFiles}`);
   logger.info(`    Actual Files: ${report.fileSystemStatus.actualFiles}`);
@@ -251,6 +289,16 @@ function logPlaylistReport(report: PlaylistStatusReport, logger: Logger): void {
     logger.info(`      First 5: ${report.fileSystemStatus.extraFiles.slice(0, 5).join(', ')}`);
   }
   
+  if (report.fileSystemStatus.removedFiles.length > 0) {
+    logger.info(`    Removed Track Files (kept): ${report.fileSystemStatus.removedFiles.length}`);
+    logger.info(`      First 5: ${report.fileSystemStatus.removedFiles.slice(0, 5).join(', ')}`);
+  }
+  
+  if (report.fileSystemStatus.archivedFiles.length > 0) {
+    logger.info(`    Removed Track Files (archived): ${report.fileSystemStatus.archivedFiles.length}`);
+    logger.info(`      First 5: ${report.fileSystemStatus.archivedFiles.slice(0, 5).join(', ')}`);
+  }
+  
   logger.info('');
 }
 
@@ -317,7 +365,7 @@ function analyzeIssues(
   if (state.overallProgress) {
     
     // Calculate expected total from all playlists in config
-    const expectedTotalPlaylists = Object.keys(config.playlists).filter(name => config.playlists[name]).length;
+    const expectedTotalPlaylists = resolvePlaylistEntries(config).length;
     
     if (expectedTotalPlaylists > reports.length) {
       issues.push(`- Expected to process ${expectedTotalPlaylists} playlists but only ${reports.length} are in the state file.`);
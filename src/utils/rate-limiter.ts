@@ -13,6 +13,7 @@ export interface RateLimiterOptions {
     private tokensPerInterval: number;
     private interval: number;
     private maxTokens: number;
+    private pausedUntil: number = 0;
     
     constructor(options: RateLimiterOptions) {
       this.tokensPerInterval = options.tokensPerInterval;
@@ -57,7 +58,19 @@ export interface RateLimiterOptions {
      */
     public tryRemoveTokens(count: number): boolean {
       this.refill();
-      return this.tokens >= count;
+      return !this.isPaused() && this.tokens >= count;
+    }
+  
+    /**
+     * Hold back all requests for the given time (e.g. from a Retry-After header).
+     * A shorter pause does not end a longer one early.
+     */
+    public pause(ms: number): void {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+  
+    public isPaused(): boolean {
+      return Date.now() < this.pausedUntil;
     }
   
     /**
@@ -70,6 +83,11 @@ export interface RateLimiterOptions {
         throw new Error(`Requested tokens ${count} exceeds maximum tokens ${this.maxTokens}`);
       }
       
+      // Wait out a pause, which may be extended while waiting
+      while (this.isPaused()) {
+        await new Promise(resolve => setTimeout(resolve, this.pausedUntil - Date.now()));
+      }
+      
       // Refill and check
       this.refill();
       
@@ -84,7 +102,9 @@ export interface RateLimiterOptions {
         const checkAndConsume = () => {
           this.refill();
           
-          if (this.tokens >= count) {
+          if (this.isPaused()) {
+            setTimeout(checkAndConsume, this.pausedUntil - Date.now());
+          } else if (this.tokens >= count) {
             this.tokens -= count;
             resolve();
           } else {
@@ -0,0 +1,81 @@
+import { RemoteFileInfo } from '../models/track.model';
+
+/**
+ * Read the validators of an upstream file from HTTP response headers.
+ * `contentLength` overrides the header for partial (206) responses.
+ */
+export function readRemoteFileInfo(headers: { [name: string]: any }, contentLength?: number): RemoteFileInfo {
+  const lengthHeader = parseInt(headers['content-length'] || '', 10);
+  const length = contentLength ?? (isNaN(lengthHeader) ? undefined : lengthHeader);
+  
+  return {
+    etag: headers['etag'] || undefined,
+    lastModified: headers['last-modified'] || undefined,
+    contentLength: length,
+    checkedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Compare the upstream file with what was downloaded, by the strongest
+ * validator both sides have. Without recorded validators the download size
+ * from the state is used; the local file size differs once tags are written.
+ */
+export function hasRemoteFileChanged(recorded: RemoteFileInfo | undefined, current: RemoteFileInfo, downloadedSize?: number): boolean {
+  if (recorded?.etag && current.etag) {
+    return normalizeEtag(recorded.etag) !== normalizeEtag(current.etag);
+  }
+  if (recorded?.lastModified && current.lastModified) {
+    return Date.parse(recorded.lastModified) !== Date.parse(current.lastModified);
+  }
+
+  const expectedSize = recorded?.contentLength ?? downloadedSize;
+  return current.contentLength !== undefined && expectedSize !== undefined && current.contentLength !== expectedSize;
+}
+
+/**
+ * Weak and strong ETags of the same content differ only in the W/ prefix
+ */
+function normalizeEtag(etag: string): string {
+  return etag.replace(/^W\//, '');
+}
+
+/**
+ * Validator to send as If-Range when resuming a download. Weak ETags are
+ * not allowed there, Last-Modified is used instead.
+ */
+export function getRangeValidator(remote: RemoteFileInfo | undefined): string | undefined {
+  if (remote?.etag && !remote.etag.startsWith('W/')) {
+    return remote.etag;
+  }
+  return remote?.lastModified;
+}
+
+/**
+ * Parse a Content-Range header ("bytes 100-999/1000", total may be "*")
+ */
+export function parseContentRange(header: string | undefined): { start: number, end: number, total?: number } | null {
+  const match = /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec((header || '').trim());
+  if (!match) return null;
+  
+  return {
+    start: parseInt(match[1], 10),
+    end: parseInt(match[2], 10),
+    total: match[3] === '*' ? undefined : parseInt(match[3], 10)
+  };
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | undefined, now: number = Date.now()): number | null {
+  if (!header) return null;
+  
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
\ No newline at end of file
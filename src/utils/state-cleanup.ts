@@ -8,13 +8,16 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadConfig } from '../config/config';
 import { Track, TrackStatus } from '../models/track.model';
+import { FileLookup } from './file-lookup';
+import { createStableTrackId, isUnstableTrackId } from './track-id';
 
 // Define the path to the state file
 const stateFilePath = path.join(process.cwd(), '.aersia-state.json');
 
-// Define playlist information
-const playlists = ['VIP', 'Source', 'Mellow', 'Exiled', 'WAP', 'CPP'];
+// Playlists are whatever the config declares
+const playlists = Object.keys(loadConfig().playlists);
 
 async function cleanupState() {
   console.log('Aersia-Hoshii State File Cleanup Utility');
@@ -46,15 +49,15 @@ async function cleanupState() {
       const playlist = state.playlists[playlistName];
       console.log(`\nProcessing playlist: ${playlistName} (${playlist.tracks.length} tracks)`);
       
-      // Create a set of tracks with malformed IDs
-      const malformedIDs = playlist.tracks.filter((t: Track) => t.id === `${playlistName}-undefined`).length;
+      // Create a set of tracks with malformed or random IDs
+      const malformedIDs = playlist.tracks.filter((t: Track) => isUnstableTrackId(playlistName, t.id)).length;
       if (malformedIDs > 0) {
         console.log(`Found ${malformedIDs} tracks with malformed IDs in ${playlistName} playlist`);
         
-        // Fix malformed IDs
+        // Replace them with stable IDs derived from the download URL
         playlist.tracks.forEach((track : Track) => {
-          if (track.id === `${playlistName}-undefined`) {
-            track.id = `${playlistName}-${Math.random().toString(36).substring(2, 10)}`;
+          if (isUnstableTrackId(playlistName, track.id) && track.downloadUrl) {
+            track.id = createStableTrackId(playlistName, track.downloadUrl);
             totalFixedTracks++;
           }
         });
@@ -79,28 +82,15 @@ async function cleanupState() {
         totalRemovedTracks += duplicates.length;
       }
       
-      // Verify file existence and update statuses
-      const playlistDir = path.join(process.cwd(), 'Aersia Playlists', playlistName);
-      let existingFiles = new Map();
-      
-      try {
-        if (fs.existsSync(playlistDir)) {
-          const files = fs.readdirSync(playlistDir);
-          files.forEach(file => {
-            existingFiles.set(file.toLowerCase(), true);
-          });
-          console.log(`Found ${files.length} actual files in ${playlistName} directory`);
-        }
-      } catch (error) {
-        console.error(`Error checking playlist directory: ${error}`);
-      }
-      
-      // Update track statuses based on file existence
+      // Verify file existence and update statuses (tracks may live in nested folders)
       let updatedStatuses = 0;
+      const fileLookup = new FileLookup();
       
       playlist.tracks.forEach((track : Track) => {
-        const fileName = path.basename(track.filePath);
-        const fileExists = existingFiles.has(fileName.toLowerCase());
+        // Removed tracks keep their status regardless of their file
+        if (track.status === TrackStatus.REMOVED) return;
+        
+        const fileExists = fileLookup.exists(track.filePath);
         
         if (track.status === TrackStatus.COMPLETED && !fileExists) {
           track.status = TrackStatus.PENDING;
@@ -116,7 +106,7 @@ async function cleanupState() {
       console.log(`Updated status for ${updatedStatuses} tracks based on file existence`);
       
       // Add or update count properties
-      playlist.totalCount = playlist.tracks.length;
+      playlist.totalCount = playlist.tracks.filter((t: Track) => t.status !== TrackStatus.REMOVED).length;
       playlist.completedCount = playlist.tracks.filter((t: Track) => 
         t.status === 'completed' || t.status === 'skipped'
       ).length;
@@ -0,0 +1,105 @@
+import { Track } from '../models/track.model';
+
+export type TrackFilterMatch = 'all' | 'any';
+
+/**
+ * Track selection criteria. Values of one criterion are alternatives;
+ * criteria are combined according to `match`, exclusions always win.
+ */
+export interface TrackFilterOptions {
+  games?: string[];           // Substrings of the game name
+  composers?: string[];       // Substrings of the composer
+  arrangers?: string[];       // Substrings of the arranger
+  title?: string;             // Regular expression on the title
+  trackIds?: string[];        // Track IDs, with or without the playlist prefix
+  excludeGames?: string[];
+  excludeComposers?: string[];
+  excludeArrangers?: string[];
+  excludeTitle?: string;
+  excludeTrackIds?: string[];
+  match?: TrackFilterMatch;   // Whether all or any include criteria must match (default: all)
+}
+
+type TrackPredicate = (track: Track) => boolean;
+
+/**
+ * Create a predicate selecting tracks, or null when no criteria are given.
+ * Throws on an invalid title expression.
+ */
+export function createTrackFilter(options: TrackFilterOptions): TrackPredicate | null {
+  const includes = buildPredicates(options.games, options.composers, options.arrangers, options.title, options.trackIds);
+  const excludes = buildPredicates(
+    options.excludeGames,
+    options.excludeComposers,
+    options.excludeArrangers,
+    options.excludeTitle,
+    options.excludeTrackIds
+  );
+  
+  if (includes.length === 0 && excludes.length === 0) {
+    return null;
+  }
+
+  const matchAny = options.match === 'any';
+  
+  return (track: Track) => {
+    if (excludes.some(predicate => predicate(track))) {
+      return false;
+    }
+    if (includes.length === 0) {
+      return true;
+    }
+    return matchAny
+      ? includes.some(predicate => predicate(track))
+      : includes.every(predicate => predicate(track));
+  };
+}
+
+function buildPredicates(
+  games?: string[],
+  composers?: string[],
+  arrangers?: string[],
+  title?: string,
+  trackIds?: string[]
+): TrackPredicate[] {
+  const predicates: TrackPredicate[] = [];
+  
+  if (games && games.length > 0) {
+    predicates.push(track => containsAny([track.game, track.metadata.album], games));
+  }
+
+  if (composers && composers.length > 0) {
+    predicates.push(track => containsAny([track.artist, track.metadata.artist, track.metadata.composer], composers));
+  }
+
+  if (arrangers && arrangers.length > 0) {
+    predicates.push(track => containsAny([track.metadata.arranger], arrangers));
+  }
+
+  if (title) {
+    const pattern = createTitlePattern(title);
+    predicates.push(track => pattern.test(track.title) || pattern.test(track.metadata.title));
+  }
+
+  if (trackIds && trackIds.length > 0) {
+    predicates.push(track => trackIds.some(id => track.id === id || track.id === `${track.playlistName}-${id}`));
+  }
+
+  return predicates;
+}
+
+function createTitlePattern(expression: string): RegExp {
+  try {
+    return new RegExp(expression, 'i');
+  } catch (error: any) {
+    throw new Error(`Invalid title expression "${expression}": ${error.message}`);
+  }
+}
+
+/**
+ * Case-insensitive substring match of any value against any needle
+ */
+function containsAny(values: Array<string | undefined>, needles: string[]): boolean {
+  const haystacks = values.filter((value): value is string => !!value).map(value => value.toLowerCase());
+  return needles.some(needle => haystacks.some(haystack => haystack.includes(needle.toLowerCase())));
+}
\ No newline at end of file
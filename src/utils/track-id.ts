@@ -0,0 +1,20 @@
+import { createHash } from 'crypto';
+
+// IDs generated by older versions for legacy (WAP, CPP) tracks
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Create a deterministic track ID from content that identifies the track,
+ * usually its download URL, so the same track gets the same ID on every run
+ */
+export function createStableTrackId(playlistName: string, key: string): string {
+  const hash = createHash('sha1').update(key).digest('hex').substring(0, 12);
+  return `${playlistName}-${hash}`;
+}
+
+/**
+ * Check whether a track ID was randomly generated and needs migrating
+ */
+export function isUnstableTrackId(playlistName: string, id: string): boolean {
+  return !id || id === `${playlistName}-undefined` || UUID_PATTERN.test(id);
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Track } from '../models/track.model';
+
+/**
+ * Check whether a roster track references a file of another roster
+ * (Mellow and Exiled tracks whose file starts with "../" point at VIP files)
+ */
+export function isReferenceTrack(track: Track): boolean {
+  return !!(track.sourceTrack && typeof track.sourceTrack.file === 'string' && track.sourceTrack.file.includes('../'));
+}
+
+/**
+ * Normalize a download URL so that "../" references compare equal to the referenced file's URL
+ */
+export function normalizeDownloadUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch (error) {
+    return url;
+  }
+}
+
+/**
+ * Index tracks by normalized download URL, leaving out reference tracks themselves
+ */
+export function indexTracksByUrl(tracks: Track[]): Map<string, Track> {
+  const index = new Map<string, Track>();
+  
+  tracks
+    .filter(track => !isReferenceTrack(track))
+    .forEach(track => index.set(normalizeDownloadUrl(track.downloadUrl), track));
+  
+  return index;
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { AdaptiveConcurrency } from '../src/utils/adaptive-concurrency';
+
+const INTERVAL_MS = 1000;
+
+/**
+ * Drive a controller through measurement windows of INTERVAL_MS
+ */
+function createController(initial: number, min: number = 1, max: number = 8) {
+  const controller = new AdaptiveConcurrency({ initial, min, max, intervalMs: INTERVAL_MS });
+  let now = Date.now();
+  
+  const runWindow = (bytes: number, saturated: boolean = true): number => {
+    controller.recordBytes(bytes);
+    controller.recordActive(saturated ? controller.getLevel() : 0);
+    now += INTERVAL_MS;
+    controller.evaluate(now);
+    return controller.getLevel();
+  };
+  
+  return { controller, runWindow };
+}
+
+test('the level starts within its bounds', () => {
+  assert.strictEqual(new AdaptiveConcurrency({ initial: 20, min: 1, max: 8 }).getLevel(), 8);
+  assert.strictEqual(new AdaptiveConcurrency({ initial: 0, min: 2, max: 8 }).getLevel(), 2);
+});
+
+test('the level rises while all slots are busy and the throughput improves', () => {
+  const { runWindow } = createController(2);
+  
+  assert.strictEqual(runWindow(1000), 3);
+  assert.strictEqual(runWindow(2000), 4);
+  assert.strictEqual(runWindow(3000), 5);
+});
+
+test('the level does not rise while slots are idle', () => {
+  const { runWindow } = createController(2);
+  
+  assert.strictEqual(runWindow(1000, false), 2);
+  assert.strictEqual(runWindow(5000, false), 2);
+});
+
+test('an increase without more throughput is undone and not retried for a while', () => {
+  const { runWindow } = createController(2);
+  
+  assert.strictEqual(runWindow(1000), 3);
+  assert.strictEqual(runWindow(1000), 2);
+  
+  // Held for three windows, then probed again
+  assert.strictEqual(runWindow(1000), 2);
+  assert.strictEqual(runWindow(1000), 2);
+  assert.strictEqual(runWindow(1000), 2);
+  assert.strictEqual(runWindow(1000), 3);
+});
+
+test('congestion halves the level once per window and not below the minimum', () => {
+  const { controller, runWindow } = createController(8, 3);
+  
+  assert.strictEqual(controller.recordCongestion(), true);
+  assert.strictEqual(controller.recordCongestion(), false);
+  assert.strictEqual(controller.getLevel(), 4);
+  
+  // No increase in a congested window
+  assert.strictEqual(runWindow(1000), 4);
+  
+  assert.strictEqual(controller.recordCongestion(), true);
+  assert.strictEqual(controller.getLevel(), 3);
+  runWindow(1000);
+  assert.strictEqual(controller.recordCongestion(), false);
+  assert.strictEqual(controller.getLevel(), 3);
+});
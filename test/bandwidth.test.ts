@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { parseBandwidth } from '../src/utils/bandwidth-limiter';
+import { resolveBandwidthLimit } from '../src/utils/bandwidth-schedule';
+
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2024, 0, 1, hours, minutes);
+}
+
+test('parseBandwidth reads byte rates with units', () => {
+  assert.strictEqual(parseBandwidth('2MB/s'), 2 * 1024 * 1024);
+  assert.strictEqual(parseBandwidth('500 KB'), 500 * 1024);
+  assert.strictEqual(parseBandwidth('1.5m'), 1.5 * 1024 * 1024);
+  assert.strictEqual(parseBandwidth('1048576'), 1048576);
+  assert.strictEqual(parseBandwidth(4096), 4096);
+});
+
+test('parseBandwidth treats unlimited, zero and empty values as no limit', () => {
+  for (const value of ['unlimited', 'none', '0', '', undefined, null, 0]) {
+    assert.strictEqual(parseBandwidth(value), null, String(value));
+  }
+});
+
+test('parseBandwidth rejects unknown units', () => {
+  assert.throws(() => parseBandwidth('2 parsecs'), /Invalid bandwidth/);
+  assert.throws(() => parseBandwidth('fast'), /Invalid bandwidth/);
+});
+
+test('a schedule window crossing midnight applies on both sides of it', () => {
+  const schedule = [{ from: '22:00', to: '07:00', maxBandwidth: 'unlimited' }];
+  
+  assert.strictEqual(resolveBandwidthLimit('1MB/s', schedule, at('23:30')), null);
+  assert.strictEqual(resolveBandwidthLimit('1MB/s', schedule, at('00:00')), null);
+  assert.strictEqual(resolveBandwidthLimit('1MB/s', schedule, at('06:59')), null);
+  assert.strictEqual(resolveBandwidthLimit('1MB/s', schedule, at('07:00')), 1024 * 1024);
+  assert.strictEqual(resolveBandwidthLimit('1MB/s', schedule, at('21:59')), 1024 * 1024);
+});
+
+test('the first matching schedule window wins', () => {
+  const schedule = [
+    { from: '09:00', to: '17:00', maxBandwidth: '200KB/s' },
+    { from: '08:00', to: '18:00', maxBandwidth: '1MB/s' }
+  ];
+  
+  assert.strictEqual(resolveBandwidthLimit(undefined, schedule, at('12:00')), 200 * 1024);
+  assert.strictEqual(resolveBandwidthLimit(undefined, schedule, at('08:30')), 1024 * 1024);
+  assert.strictEqual(resolveBandwidthLimit(undefined, schedule, at('20:00')), null);
+});
+
+test('invalid schedule times are rejected', () => {
+  assert.throws(() => resolveBandwidthLimit(undefined, [{ from: '25:00', to: '07:00', maxBandwidth: '1MB/s' }]), /Invalid time/);
+  assert.throws(() => resolveBandwidthLimit(undefined, [{ from: 'night', to: '07:00', maxBandwidth: '1MB/s' }]), /Invalid time/);
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { test } from 'node:test';
+import { DownloadWatchdog } from '../src/utils/download-watchdog';
+
+const TIMEOUTS = { connectMs: 100, firstByteMs: 100, idleMs: 100 };
+
+function waitForAbort(abortController: AbortController): Promise<void> {
+  return new Promise(resolve => abortController.signal.addEventListener('abort', () => resolve()));
+}
+
+test('the connect timeout aborts a request that never connects', async () => {
+  const abortController = new AbortController();
+  const watchdog = new DownloadWatchdog(abortController, TIMEOUTS);
+  
+  watchdog.start();
+  await waitForAbort(abortController);
+  
+  assert.match(watchdog.getTimeoutError()!.message, /^No connection within/);
+  assert.strictEqual((watchdog.getTimeoutError() as NodeJS.ErrnoException).code, 'ETIMEDOUT');
+});
+
+test('the first-byte timeout starts once connected and aborts a silent server', async () => {
+  const server = http.createServer(() => { /* Never answers */ });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const abortController = new AbortController();
+  const watchdog = new DownloadWatchdog(abortController, { ...TIMEOUTS, connectMs: 5000 });
+  
+  try {
+    const { httpAgent } = watchdog.start();
+    const request = http.get({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      agent: httpAgent,
+      signal: abortController.signal
+    });
+    request.on('error', () => { /* Aborted */ });
+    
+    await waitForAbort(abortController);
+    assert.match(watchdog.getTimeoutError()!.message, /^No data within .* of connecting$/);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+test('the idle timeout restarts with every chunk', async () => {
+  const abortController = new AbortController();
+  const watchdog = new DownloadWatchdog(abortController, TIMEOUTS);
+  
+  watchdog.activity();
+  for (let i = 0; i < 3; i++) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+    watchdog.activity();
+  }
+  assert.strictEqual(abortController.signal.aborted, false);
+  
+  await waitForAbort(abortController);
+  assert.match(watchdog.getTimeoutError()!.message, /^No data for/);
+});
+
+test('a stopped or disabled watchdog does not abort', async () => {
+  const stopped = new AbortController();
+  const stoppedWatchdog = new DownloadWatchdog(stopped, TIMEOUTS);
+  stoppedWatchdog.activity();
+  stoppedWatchdog.stop();
+  
+  const disabled = new AbortController();
+  const disabledWatchdog = new DownloadWatchdog(disabled, { connectMs: 0, firstByteMs: 0, idleMs: 0 });
+  disabledWatchdog.start();
+  disabledWatchdog.activity();
+  
+  await new Promise(resolve => setTimeout(resolve, 200));
+  assert.strictEqual(stopped.signal.aborted, false);
+  assert.strictEqual(disabled.signal.aborted, false);
+  assert.strictEqual(disabledWatchdog.getTimeoutError(), null);
+});
@@ -0,0 +1,241 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { FileChecksum, Track, TrackStatus } from '../src/models/track.model';
+import { DownloadManager } from '../src/services/download.service';
+import { FileService } from '../src/services/file.service';
+import { Logger } from '../src/services/logger.service';
+import { StateManager } from '../src/services/state.service';
+
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+/**
+ * Stands in for the taglib-backed file service, tagging is not under test
+ */
+const fakeFileService = {
+  getFileInfo: async (filePath: string) => {
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    return { exists: !!stats, size: stats ? stats.size : 0 };
+  },
+  setMetadata: async (): Promise<string | null> => null,
+  calculateChecksum: async (): Promise<FileChecksum | null> => null
+} as unknown as FileService;
+
+interface DownloadRun {
+  event: string;             // complete or fail
+  track: Track;              // State of the track afterwards
+  requests: http.IncomingHttpHeaders[];
+  file: Buffer | null;
+  partialFile: Buffer | null;
+}
+
+/**
+ * Download one track from a local server, optionally starting from a partial
+ * download (`partial` bytes of the content, recorded with `partialRemote`)
+ */
+async function runDownload(
+  handler: (request: http.IncomingMessage, response: http.ServerResponse, attempt: number) => void,
+  setup: {
+    partial?: Buffer,
+    recordedBytes?: number,   // Checkpoint in the state, the size of `partial` by default
+    partialRemote?: Track['partialRemote'],
+    totalBytes?: number,
+    maxRetries?: number
+  } = {}
+): Promise<DownloadRun> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'download-'));
+  const requests: http.IncomingHttpHeaders[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(request.headers);
+    handler(request, response, requests.length);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  
+  const logger = new Logger({ logToConsole: false });
+  const stateManager = new StateManager(dir, logger);
+  
+  try {
+    const filePath = path.join(dir, 'P', 'track.m4a');
+    const track: Track = {
+      id: 'P-1',
+      playlistName: 'P',
+      title: 'Track',
+      downloadUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/track.m4a`,
+      fileName: 'track.m4a',
+      filePath,
+      fileExt: 'm4a',
+      metadata: { title: 'Track', artist: '' },
+      sourceTrack: {}
+    };
+    stateManager.initPlaylist('P', [track]);
+    
+    const stateTrack: Track = stateManager.getPlaylistState('P').tracks[0];
+    if (setup.partial) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(`${filePath}.download`, setup.partial);
+      stateTrack.bytesDownloaded = setup.recordedBytes ?? setup.partial.length;
+      stateTrack.totalBytes = setup.totalBytes;
+      stateTrack.partialRemote = setup.partialRemote;
+    }
+    
+    const downloadManager = new DownloadManager(logger, stateManager, fakeFileService, {
+      maxConcurrent: 1,
+      requestsPerMinute: 600,
+      retryDelayMs: 10,
+      maxRetries: setup.maxRetries ?? 0
+    });
+    const event = await new Promise<string>(resolve => {
+      downloadManager.once('complete', () => resolve('complete'));
+      downloadManager.once('fail', () => resolve('fail'));
+      downloadManager.addToQueue(stateManager.getPendingTracks('P'));
+    });
+    
+    return {
+      event,
+      track: { ...stateTrack },
+      requests,
+      file: await fs.promises.readFile(filePath).catch(() => null),
+      partialFile: await fs.promises.readFile(`${filePath}.download`).catch(() => null)
+    };
+  } finally {
+    stateManager.cleanup();
+    logger.close();
+    server.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function sendContent(response: http.ServerResponse, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(200, { 'Content-Length': CONTENT.length, ...headers });
+  response.end(CONTENT);
+}
+
+test('a Retry-After response requeues the track without counting a retry', async () => {
+  const run = await runDownload((_request, response, attempt) => {
+    if (attempt === 1) {
+      response.writeHead(429, { 'Retry-After': '1' });
+      response.end();
+    } else {
+      sendContent(response);
+    }
+  });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.track.status, TrackStatus.COMPLETED);
+  assert.strictEqual(run.track.retryCount || 0, 0);
+  assert.strictEqual(run.requests.length, 2);
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+/**
+ * Answer range requests for the content, as a server supporting resumes does
+ */
+function sendRange(request: http.IncomingMessage, response: http.ServerResponse, contentRange?: string): void {
+  const start = parseInt(/^bytes=(\d+)-$/.exec(request.headers.range || '')![1], 10);
+  response.writeHead(206, {
+    'Content-Length': CONTENT.length - start,
+    'Content-Range': contentRange ?? `bytes ${start}-${CONTENT.length - 1}/${CONTENT.length}`,
+    'ETag': '"v1"'
+  });
+  response.end(CONTENT.subarray(start));
+}
+
+test('a resume with a matching 206 response appends to the partial download', async () => {
+  const run = await runDownload((request, response) => sendRange(request, response), {
+    partial: CONTENT.subarray(0, 10),
+    partialRemote: { etag: '"v1"' },
+    totalBytes: CONTENT.length
+  });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests[0].range, 'bytes=10-');
+  assert.strictEqual(run.requests[0]['if-range'], '"v1"');
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+test('a 206 response for another range discards the partial download and starts over', async () => {
+  const run = await runDownload((request, response, attempt) => {
+    if (attempt === 1) {
+      sendRange(request, response, `bytes 0-${CONTENT.length - 1}/${CONTENT.length}`);
+    } else {
+      sendContent(response);
+    }
+  }, { partial: CONTENT.subarray(0, 10), totalBytes: CONTENT.length, maxRetries: 1 });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests.length, 2);
+  assert.strictEqual(run.requests[1].range, undefined);
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+test('a 200 response to a resume replaces the partial download', async () => {
+  const run = await runDownload((_request, response) => sendContent(response), {
+    partial: Buffer.from('stale part'),
+    totalBytes: CONTENT.length
+  });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests.length, 1);
+  assert.strictEqual(run.requests[0].range, 'bytes=10-');
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+test('a 416 response discards the partial download and starts over', async () => {
+  const run = await runDownload((request, response) => {
+    if (request.headers.range) {
+      response.writeHead(416, { 'Content-Range': `bytes */${CONTENT.length}` });
+      response.end();
+    } else {
+      sendContent(response);
+    }
+  }, { partial: Buffer.alloc(CONTENT.length + 5), totalBytes: CONTENT.length + 5, maxRetries: 1 });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests.length, 2);
+  assert.strictEqual(run.requests[1].range, undefined);
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+test('a weak ETag is not sent as If-Range, Last-Modified is used instead', async () => {
+  const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+  const run = await runDownload((request, response) => sendRange(request, response), {
+    partial: CONTENT.subarray(0, 10),
+    partialRemote: { etag: 'W/"v1"', lastModified },
+    totalBytes: CONTENT.length
+  });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests[0]['if-range'], lastModified);
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+
+test('a resume starts from the partial download on disk when the checkpoint lags behind', async () => {
+  const run = await runDownload((request, response) => sendRange(request, response), {
+    partial: CONTENT.subarray(0, 20),
+    recordedBytes: 10,
+    partialRemote: { etag: '"v1"' },
+    totalBytes: CONTENT.length
+  });
+  
+  assert.strictEqual(run.event, 'complete');
+  assert.strictEqual(run.requests[0].range, 'bytes=20-');
+  assert.deepStrictEqual(run.file, CONTENT);
+});
+
+test('an interrupted download keeps the bytes that reached the disk for the next resume', async () => {
+  const run = await runDownload((_request, response) => {
+    response.writeHead(200, { 'Content-Length': CONTENT.length, 'ETag': '"v1"' });
+    response.write(CONTENT.subarray(0, 18));
+    setTimeout(() => response.destroy(), 100);
+  });
+  
+  assert.strictEqual(run.event, 'fail');
+  assert.deepStrictEqual(run.partialFile, CONTENT.subarray(0, 18));
+  assert.strictEqual(run.track.bytesDownloaded, 18);
+  assert.strictEqual(run.track.partialRemote?.etag, '"v1"');
+});
\ No newline at end of file
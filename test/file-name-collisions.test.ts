@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { loadConfig, PlaylistEntry } from '../src/config/config';
+import { Track } from '../src/models/track.model';
+import { Logger } from '../src/services/logger.service';
+import { PlaylistService } from '../src/services/playlist.service';
+
+const PLAYLIST: PlaylistEntry = { name: 'WAP', url: '', format: 'xml' };
+
+// Two entries of the same game and title, told apart only by their files
+const ROSTER = `<?xml version="1.0" encoding="UTF-8"?>
+<playlist><trackList>
+  <track><creator>Game</creator><title>Theme</title><location>https://wap.aersia.net/a.m4a</location></track>
+  <track><creator>Game</creator><title>Theme</title><location>https://wap.aersia.net/b.m4a</location></track>
+</trackList></playlist>`;
+
+/**
+ * Read the roster through the playlist service, as a run with --roster-from
+ * does, in a fresh library. File paths are relative to the playlist folder.
+ */
+async function getTracks(previousTracks: Track[] = []): Promise<Track[]> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'collisions-'));
+  const logger = new Logger({ logToConsole: false });
+  const playlistDir = path.join(dir, 'WAP');
+  
+  try {
+    const rosterPath = path.join(dir, 'roster.xml');
+    await fs.promises.writeFile(rosterPath, ROSTER);
+    
+    const config = { ...loadConfig(path.join(dir, 'aersia-config.json')), outputDir: dir, rosterFrom: rosterPath };
+    const tracks = await new PlaylistService(logger, config).getPlaylistTracks(
+      PLAYLIST,
+      previousTracks.map(track => ({ ...track, filePath: path.join(playlistDir, track.filePath) }))
+    );
+    
+    return tracks.map(track => ({ ...track, filePath: path.relative(playlistDir, track.filePath) }));
+  } finally {
+    logger.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function sortById(tracks: Track[]): Track[] {
+  return [...tracks].sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+test('colliding tracks get distinct names, the smallest ID the plain one', async () => {
+  const [first, second] = sortById(await getTracks());
+  
+  assert.strictEqual(first.filePath, 'Game - Theme.m4a');
+  assert.strictEqual(second.filePath, `Game - Theme [${second.id}].m4a`);
+});
+
+test('a track keeps the name it had in the previous run', async () => {
+  const [first, second] = sortById(await getTracks());
+  
+  // The track with the larger ID was there first and owns the plain name
+  const tracks = await getTracks([{ ...second, filePath: 'Game - Theme.m4a' }]);
+  const paths = new Map(tracks.map(track => [track.id, track.filePath]));
+  
+  assert.strictEqual(paths.get(second.id), 'Game - Theme.m4a');
+  assert.strictEqual(paths.get(first.id), `Game - Theme [${first.id}].m4a`);
+});
\ No newline at end of file
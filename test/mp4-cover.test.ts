@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { embedCoverArt, readCoverArt } from '../src/utils/mp4-cover';
+
+const SAMPLE = Buffer.from('SAMPLE-DATA');
+const IMAGE = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(64, 7)]);
+
+function box(type: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(body.length + 8);
+  return Buffer.concat([size, Buffer.from(type, 'latin1'), body]);
+}
+
+function uint32(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeUInt32BE(value, index * 4));
+  return buffer;
+}
+
+/**
+ * A minimal M4A: one chunk whose stco offset points at SAMPLE inside mdat,
+ * and a meta atom without handler whose udta ends in zero padding
+ */
+function makeFixture(moovFirst: boolean): Buffer {
+  const ftyp = box('ftyp', Buffer.from('M4A '), uint32(0), Buffer.from('M4A isom'));
+  const title = box('©nam', box('data', uint32(1, 0), Buffer.from('Title')));
+  const udta = box('udta', box('meta', uint32(0), box('ilst', title)), Buffer.alloc(4));
+  const moovWithOffset = (offset: number) => box('moov',
+    box('trak', box('mdia', box('minf', box('stbl', box('stco', uint32(0, 1, offset)))))),
+    udta
+  );
+  const mdat = box('mdat', SAMPLE);
+  
+  if (moovFirst) {
+    const moov = moovWithOffset(0);
+    return Buffer.concat([ftyp, moovWithOffset(ftyp.length + moov.length + 8), mdat]);
+  }
+  return Buffer.concat([ftyp, mdat, moovWithOffset(ftyp.length + 8)]);
+}
+
+function findBox(buffer: Buffer, boxPath: string[], start: number = 0, end: number = buffer.length): { start: number, size: number } {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (type === boxPath[0]) {
+      if (boxPath.length === 1) return { start: offset, size };
+      return findBox(buffer, boxPath.slice(1), offset + (type === 'meta' ? 12 : 8), offset + size);
+    }
+    offset += size;
+  }
+  throw new Error(`Box ${boxPath[0]} not found`);
+}
+
+function readChunk(file: Buffer): Buffer {
+  const stco = findBox(file, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stco']);
+  const offset = file.readUInt32BE(stco.start + 16);
+  return file.subarray(offset, offset + SAMPLE.length);
+}
+
+for (const [layout, moovFirst] of [['moov before mdat', true], ['moov after mdat', false]] as const) {
+  test(`embedCoverArt with ${layout}`, async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mp4-cover-'));
+    const filePath = path.join(dir, 'track.m4a');
+    
+    try {
+      const fixture = makeFixture(moovFirst);
+      assert.deepStrictEqual(readChunk(fixture), SAMPLE);
+      await fs.promises.writeFile(filePath, fixture);
+      
+      await embedCoverArt(filePath, IMAGE);
+      const file = await fs.promises.readFile(filePath);
+      
+      assert.deepStrictEqual(await readCoverArt(filePath), IMAGE);
+      assert.deepStrictEqual(readChunk(file), SAMPLE, 'chunk offsets point at the media data');
+      
+      // The handler comes first in meta, the existing items are kept
+      const meta = findBox(file, ['moov', 'udta', 'meta']);
+      assert.strictEqual(file.toString('latin1', meta.start + 16, meta.start + 20), 'hdlr');
+      findBox(file, ['moov', 'udta', 'meta', 'ilst', '©nam']);
+      
+      // The padding after the last child of udta is kept
+      const udta = findBox(file, ['moov', 'udta']);
+      assert.deepStrictEqual(file.subarray(udta.start + udta.size - 4, udta.start + udta.size), Buffer.alloc(4));
+      
+      // Replacing the cover keeps a single one
+      const newImage = Buffer.concat([IMAGE, Buffer.alloc(16, 9)]);
+      await embedCoverArt(filePath, newImage);
+      assert.deepStrictEqual(await readCoverArt(filePath), newImage);
+      assert.deepStrictEqual(readChunk(await fs.promises.readFile(filePath)), SAMPLE);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+}
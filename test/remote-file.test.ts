@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { getRangeValidator, parseContentRange, parseRetryAfter } from '../src/utils/remote-file';
+
+test('parseContentRange reads the range and the total size', () => {
+  assert.deepStrictEqual(parseContentRange('bytes 100-999/1000'), { start: 100, end: 999, total: 1000 });
+  assert.deepStrictEqual(parseContentRange('bytes 0-9/*'), { start: 0, end: 9, total: undefined });
+  assert.strictEqual(parseContentRange('bytes */1000'), null);
+  assert.strictEqual(parseContentRange(undefined), null);
+});
+
+test('getRangeValidator prefers a strong ETag and falls back to Last-Modified', () => {
+  const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+  assert.strictEqual(getRangeValidator({ etag: '"v1"', lastModified }), '"v1"');
+  assert.strictEqual(getRangeValidator({ etag: 'W/"v1"', lastModified }), lastModified);
+  assert.strictEqual(getRangeValidator({ etag: 'W/"v1"' }), undefined);
+  assert.strictEqual(getRangeValidator(undefined), undefined);
+});
+
+
+test('parseRetryAfter reads seconds and HTTP dates', () => {
+  const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+  assert.strictEqual(parseRetryAfter('120', now), 120 * 1000);
+  assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now), 30 * 1000);
+  assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now), 0);
+  assert.strictEqual(parseRetryAfter('soon', now), null);
+  assert.strictEqual(parseRetryAfter(undefined, now), null);
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { retagLibrary } from '../src/commands/retag';
+import { loadConfig } from '../src/config/config';
+import { FileChecksum, Track, TrackMetadata, TrackStatus } from '../src/models/track.model';
+import { FileService } from '../src/services/file.service';
+import { Logger } from '../src/services/logger.service';
+import { MetadataOverrides } from '../src/services/metadata-override.service';
+import { StateManager } from '../src/services/state.service';
+
+function checksumOf(filePath: string): FileChecksum {
+  const content = fs.readFileSync(filePath);
+  return {
+    sha256: createHash('sha256').update(content).digest('hex'),
+    size: content.length,
+    modifiedAt: fs.statSync(filePath).mtime.toISOString()
+  };
+}
+
+/**
+ * Stands in for the taglib-backed file service: tags are appended to the file in place
+ */
+const fakeFileService = {
+  readMetadata: async (): Promise<TrackMetadata> => ({ title: 'Old Title', artist: 'Composer' }),
+  setMetadata: async (filePath: string, metadata: TrackMetadata): Promise<string | null> => {
+    await fs.promises.appendFile(filePath, `|${metadata.title}`);
+    return null;
+  },
+  calculateChecksum: async (filePath: string): Promise<FileChecksum | null> => checksumOf(filePath)
+} as unknown as FileService;
+
+function makeTrack(playlistName: string, id: string, filePath: string, file: string): Track {
+  return {
+    id,
+    playlistName,
+    game: 'Game',
+    title: 'Title',
+    downloadUrl: `https://www.vipvgm.net/${file}`,
+    fileName: path.basename(filePath),
+    filePath,
+    fileExt: 'm4a',
+    metadata: { title: 'Title', artist: 'Composer', album: 'Game' },
+    status: TrackStatus.COMPLETED,
+    checksum: checksumOf(filePath),
+    sourceTrack: { id, game: 'Game', title: 'Title', file }
+  };
+}
+
+test('retag refreshes the checksums of reference tracks linked to the retagged file', async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'retag-'));
+  const logger = new Logger({ logToConsole: false });
+  
+  try {
+    for (const playlist of ['VIP', 'Mellow', 'Exiled', 'WAP']) {
+      await fs.promises.mkdir(path.join(dir, playlist));
+    }
+    const vipPath = path.join(dir, 'VIP', 'Game - Title.m4a');
+    const mellowPath = path.join(dir, 'Mellow', 'Game - Title.m4a');
+    const exiledPath = path.join(dir, 'Exiled', 'Game - Title.m4a');
+    const otherPath = path.join(dir, 'WAP', 'Game - Title.m4a');
+    await fs.promises.writeFile(vipPath, 'audio');
+    await fs.promises.link(vipPath, mellowPath);
+    await fs.promises.symlink(vipPath, exiledPath);
+    await fs.promises.writeFile(otherPath, 'audio');
+    
+    const tracks = {
+      VIP: makeTrack('VIP', 'VIP-1', vipPath, 'Game - Title.m4a'),
+      Mellow: makeTrack('Mellow', 'Mellow-1', mellowPath, '../Game - Title.m4a'),
+      Exiled: makeTrack('Exiled', 'Exiled-1', exiledPath, '../Game - Title.m4a'),
+      WAP: { ...makeTrack('WAP', 'WAP-1', otherPath, 'Game - Title.m4a'), metadata: { title: 'Old Title', artist: 'Composer' } }
+    };
+    const otherChecksum = tracks.WAP.checksum;
+    await fs.promises.writeFile(path.join(dir, '.aersia-state.json'), JSON.stringify({
+      playlists: Object.fromEntries(Object.entries(tracks).map(([name, track]) => [name, {
+        name, tracks: [track], lastUpdated: new Date(), completed: true
+      }])),
+      currentPlaylist: '',
+      overallProgress: { total: 4, completed: 4, failed: 0, pending: 0 },
+      startTime: new Date()
+    }));
+    
+    const config = { ...loadConfig(path.join(dir, 'aersia-config.json')), baseDir: dir };
+    const stateManager = new StateManager(dir, logger);
+    try {
+      const result = await retagLibrary(stateManager, fakeFileService, new MetadataOverrides(logger, config), logger, {
+        dryRun: false,
+        referenceTrackMode: 'hardlink'
+      });
+      assert.strictEqual(result.changed, 1);
+      
+      const retagged = checksumOf(vipPath);
+      for (const playlist of ['VIP', 'Mellow', 'Exiled']) {
+        assert.deepStrictEqual(stateManager.getPlaylistState(playlist).tracks[0].checksum, retagged, playlist);
+      }
+      assert.deepStrictEqual(stateManager.getPlaylistState('WAP').tracks[0].checksum, otherChecksum);
+    } finally {
+      stateManager.cleanup();
+    }
+  } finally {
+    logger.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+});